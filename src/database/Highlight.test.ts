@@ -1,7 +1,15 @@
 import { expect, assert } from "chai";
 import { v4 as uuidv4 } from "uuid";
 import { HighlightService } from "./Highlight";
-import { Bookmark, Content, Highlight } from "./interfaces";
+import {
+	Bookmark,
+	BookmarkStamp,
+	Content,
+	DeletedHighlightPolicy,
+	Highlight,
+	ImportedBookmark,
+	ImportWatermark,
+} from "./interfaces";
 import { Repository } from "./repository";
 
 /* eslint-disable @typescript-eslint/no-unused-expressions */
@@ -449,4 +457,259 @@ describe("HighlightService", async function () {
 			});
 		});
 	});
+
+	describe("Incremental import", async function () {
+		const service = new HighlightService({} as Repository);
+		const stamps: BookmarkStamp[] = [
+			{
+				bookmarkId: "old",
+				volumeId: "volume1",
+				dateCreated: new Date("2024-01-01T00:00:00Z"),
+			},
+			{
+				bookmarkId: "edited",
+				volumeId: "volume2",
+				dateCreated: new Date("2024-01-01T00:00:00Z"),
+				dateModified: new Date("2024-03-01T00:00:00Z"),
+			},
+			{
+				bookmarkId: "synced",
+				volumeId: "volume3",
+				dateCreated: new Date("2023-06-01T00:00:00Z"),
+			},
+		];
+		function imported(bookmarkId: string): ImportedBookmark {
+			return {
+				bookmarkId,
+				contentId: `${bookmarkId}-content`,
+				chapter: "Chapter 1",
+				text: `${bookmarkId} text`,
+				dateCreated: "2024-01-01T00:00:00.000Z",
+			};
+		}
+
+		const watermark: ImportWatermark = {
+			lastDateCreated: "2024-01-01T00:00:00.000Z",
+			lastDateModified: "2024-02-01T00:00:00.000Z",
+			books: {
+				"Book 1": { volumeId: "volume1", bookmarks: [imported("old")] },
+				"Book 2": {
+					volumeId: "volume2",
+					bookmarks: [imported("edited")],
+				},
+			},
+		};
+
+		it("getChangedVolumeIds returns modified and unknown bookmarks", async function () {
+			const volumeIds = service.getChangedVolumeIds(stamps, watermark);
+
+			expect(Array.from(volumeIds)).to.have.members([
+				"volume2",
+				"volume3",
+			]);
+		});
+
+		it("getChangedVolumeIds returns nothing when up to date", async function () {
+			const volumeIds = service.getChangedVolumeIds(stamps, {
+				lastDateCreated: "2024-01-01T00:00:00.000Z",
+				lastDateModified: "2024-03-01T00:00:00.000Z",
+				books: {
+					"Book 1": {
+						bookmarks: [
+							imported("old"),
+							imported("edited"),
+							imported("synced"),
+						],
+					},
+				},
+			});
+
+			expect(volumeIds.size).to.equal(0);
+		});
+
+		it("updateWatermark keeps untouched books and advances dates", async function () {
+			const content = new Map([
+				[
+					"Book 3",
+					new Map([
+						[
+							"Chapter 1",
+							[
+								{
+									bookmarkId: "synced",
+									text: "text",
+									contentId: "content3",
+									dateCreated: new Date(
+										"2023-06-01T00:00:00Z",
+									),
+									volumeId: "volume3",
+								},
+							],
+						],
+					]),
+				],
+			]);
+
+			const updated = service.updateWatermark(
+				watermark,
+				stamps,
+				content,
+			);
+
+			expect(updated).to.deep.equal({
+				lastDateCreated: "2024-01-01T00:00:00.000Z",
+				lastDateModified: "2024-03-01T00:00:00.000Z",
+				books: {
+					...watermark.books,
+					"Book 3": {
+						volumeId: "volume3",
+						bookmarks: [
+							{
+								bookmarkId: "synced",
+								contentId: "content3",
+								chapter: "Chapter 1",
+								text: "text",
+								note: undefined,
+								color: undefined,
+								dateCreated: "2023-06-01T00:00:00.000Z",
+								deletedOnDevice: undefined,
+								kind: undefined,
+								chapterProgress: undefined,
+							},
+						],
+					},
+				},
+			});
+		});
+
+		it("getChangedVolumeIds returns books that lost bookmarks", async function () {
+			const volumeIds = service.getChangedVolumeIds(
+				stamps.filter((s) => s.bookmarkId != "old"),
+				watermark,
+			);
+
+			expect(volumeIds.has("volume1")).to.be.true;
+		});
+
+		for (const [policy, chapterName] of [
+			["mark", "Chapter 1"],
+			["archive", "Archived highlights"],
+		] as [DeletedHighlightPolicy, string][]) {
+			it(`applyDeletedHighlights ${policy}`, async function () {
+				const content = new Map<string, Map<string, Bookmark[]>>();
+				const deleted = service.applyDeletedHighlights(
+					content,
+					stamps.filter((s) => s.bookmarkId != "old"),
+					watermark,
+					() => policy,
+				);
+
+				expect(deleted.get("Book 1")).to.have.length(1);
+				expect(deleted.has("Book 2")).to.be.false;
+
+				const kept = content.get("Book 1")?.get(chapterName);
+				expect(kept).to.have.length(1);
+				expect(kept?.[0].bookmarkId).to.equal("old");
+				expect(kept?.[0].deletedOnDevice).to.be.true;
+			});
+		}
+
+		it("applyDeletedHighlights leaves the collected chapters untouched", async function () {
+			const loaded = new Map([
+				[
+					"Book 1",
+					new Map<string, Bookmark[]>([["Chapter 1", []]]),
+				],
+			]);
+
+			// Collected twice from the same highlights, e.g. a dry run then
+			// the import
+			for (let run = 0; run < 2; run++) {
+				const content = new Map(loaded);
+				service.applyDeletedHighlights(
+					content,
+					stamps.filter((s) => s.bookmarkId != "old"),
+					watermark,
+					() => "mark",
+				);
+
+				expect(content.get("Book 1")?.get("Chapter 1")).to.have.length(1);
+			}
+			expect(loaded.get("Book 1")?.get("Chapter 1")).to.have.length(0);
+		});
+
+		it("applyDeletedHighlights remove", async function () {
+			const content = new Map<string, Map<string, Bookmark[]>>();
+			const deleted = service.applyDeletedHighlights(
+				content,
+				stamps.filter((s) => s.bookmarkId != "old"),
+				watermark,
+				() => "remove",
+			);
+
+			expect(deleted.get("Book 1")).to.have.length(1);
+			expect(content.get("Book 1")?.size).to.equal(0);
+		});
+
+		it("getBookPreviews reports status and counts", async function () {
+			const content = new Map([
+				[
+					"Book 2",
+					new Map([
+						[
+							"Chapter 1",
+							[
+								{
+									bookmarkId: "edited",
+									text: "text",
+									contentId: "content2",
+									dateCreated: new Date(
+										"2024-01-01T00:00:00Z",
+									),
+									volumeId: "volume2",
+								},
+							],
+						],
+					]),
+				],
+			]);
+
+			const previews = service.getBookPreviews(
+				content,
+				stamps,
+				watermark,
+				["Book 1", "Book 4"],
+			);
+
+			expect(previews.get("Book 1")).to.deep.equal({
+				title: "Book 1",
+				status: "unchanged",
+				highlightCount: 1,
+			});
+			expect(previews.get("Book 2")?.status).to.equal("changed");
+			expect(previews.get("Book 4")).to.deep.equal({
+				title: "Book 4",
+				status: "new",
+				highlightCount: 0,
+			});
+		});
+
+		it("updateWatermark keeps the original chapter of archived bookmarks", async function () {
+			const content = new Map<string, Map<string, Bookmark[]>>();
+			service.applyDeletedHighlights(
+				content,
+				stamps.filter((s) => s.bookmarkId != "old"),
+				watermark,
+				() => "archive",
+			);
+
+			const updated = service.updateWatermark(watermark, stamps, content);
+
+			expect(updated.books["Book 1"].volumeId).to.equal("volume1");
+			expect(updated.books["Book 1"].bookmarks[0]).to.include({
+				chapter: "Chapter 1",
+				deletedOnDevice: true,
+			});
+		});
+	});
 });
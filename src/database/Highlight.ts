@@ -1,5 +1,18 @@
-import { BookDetails, Bookmark, Content, Highlight } from "./interfaces";
+import {
+	BookDetails,
+	Bookmark,
+	BookmarkStamp,
+	BookPreview,
+	BookStatus,
+	Content,
+	DeletedHighlightPolicy,
+	Highlight,
+	ImportedBookmark,
+	ImportWatermark,
+	ReadingSession,
+} from "./interfaces";
 import { Repository } from "./repository";
+import { computeReadingStats, ReadingStats } from "../services/ReadingStats";
 
 type bookTitle = string;
 export type chapter = string;
@@ -8,6 +21,7 @@ export class HighlightService {
 	repo: Repository;
 	unknownBookTitle = "Unknown Title";
 	unknownAuthor = "Unknown Author";
+	archivedChapterTitle = "Archived highlights";
 
 	constructor(repo: Repository) {
 		this.repo = repo;
@@ -58,10 +72,14 @@ export class HighlightService {
 
 	async getAllHighlight(
 		sortByChapterProgress?: boolean,
+		volumeIds?: string[],
 	): Promise<Highlight[]> {
 		const highlights: Highlight[] = [];
 
-		const bookmarks = await this.repo.getAllBookmark(sortByChapterProgress);
+		const bookmarks = await this.repo.getAllBookmark(
+			sortByChapterProgress,
+			volumeIds,
+		);
 		for (const bookmark of bookmarks) {
 			highlights.push(await this.createHighlightFromBookmark(bookmark));
 		}
@@ -78,6 +96,268 @@ export class HighlightService {
 		});
 	}
 
+	/**
+	 * Returns the VolumeIDs of books that have bookmarks created or modified
+	 * after the watermark, bookmarks that were never imported before, or
+	 * previously imported bookmarks that are gone from the device.
+	 */
+	getChangedVolumeIds(
+		stamps: BookmarkStamp[],
+		watermark: ImportWatermark,
+	): Set<string> {
+		const knownIds = new Set<string>();
+		for (const book of Object.values(watermark.books)) {
+			book.bookmarks.forEach((b) => knownIds.add(b.bookmarkId));
+		}
+		const lastCreated = watermark.lastDateCreated
+			? new Date(watermark.lastDateCreated).getTime()
+			: -Infinity;
+		const lastModified = watermark.lastDateModified
+			? new Date(watermark.lastDateModified).getTime()
+			: -Infinity;
+		const volumeIds = new Set<string>();
+
+		for (const stamp of stamps) {
+			if (
+				!knownIds.has(stamp.bookmarkId) ||
+				stamp.dateCreated.getTime() > lastCreated ||
+				(stamp.dateModified?.getTime() ?? -Infinity) > lastModified
+			) {
+				volumeIds.add(stamp.volumeId);
+			}
+		}
+
+		const currentIds = new Set(stamps.map((s) => s.bookmarkId));
+		for (const book of Object.values(watermark.books)) {
+			const lostBookmark = book.bookmarks.some(
+				(b) => !b.deletedOnDevice && !currentIds.has(b.bookmarkId),
+			);
+			if (lostBookmark && book.volumeId) {
+				volumeIds.add(book.volumeId);
+			}
+		}
+
+		return volumeIds;
+	}
+
+	/**
+	 * Lists every book that could be imported with its highlight count and
+	 * whether it changed since the last import. `content` may hold only the
+	 * changed books; the others are taken from the watermark and `bookTitles`.
+	 */
+	getBookPreviews(
+		content: Map<bookTitle, Map<chapter, Bookmark[]>>,
+		stamps: BookmarkStamp[],
+		watermark?: ImportWatermark,
+		bookTitles: bookTitle[] = [],
+	): Map<bookTitle, BookPreview> {
+		const changed = watermark
+			? this.getChangedVolumeIds(stamps, watermark)
+			: new Set<string>();
+		const previews = new Map<bookTitle, BookPreview>();
+
+		const statusOf = (title: bookTitle, volumeId?: string): BookStatus => {
+			const book = watermark?.books[title];
+			if (!book) {
+				return "new";
+			}
+
+			const id = volumeId ?? book.volumeId;
+			return id && changed.has(id) ? "changed" : "unchanged";
+		};
+
+		for (const [title, chapters] of content) {
+			const bookmarks = Array.from(chapters.values()).flat();
+			previews.set(title, {
+				title,
+				status: statusOf(
+					title,
+					bookmarks.find((b) => b.volumeId)?.volumeId,
+				),
+				highlightCount: bookmarks.filter((b) => !b.deletedOnDevice)
+					.length,
+			});
+		}
+
+		for (const [title, book] of Object.entries(watermark?.books ?? {})) {
+			if (!previews.has(title)) {
+				previews.set(title, {
+					title,
+					status: statusOf(title),
+					highlightCount: book.bookmarks.filter(
+						(b) => !b.deletedOnDevice,
+					).length,
+				});
+			}
+		}
+
+		for (const title of bookTitles) {
+			if (!previews.has(title)) {
+				previews.set(title, {
+					title,
+					status: statusOf(title),
+					highlightCount: 0,
+				});
+			}
+		}
+
+		return previews;
+	}
+
+	/**
+	 * Puts previously imported bookmarks that no longer exist on the device
+	 * back into `content` according to each book's policy. Books that lost
+	 * bookmarks since the last import are added to `content` so their notes
+	 * get rewritten. The chapters of a book are copied before adding to them,
+	 * so the maps `content` was built from are left as they were and the
+	 * same highlights can be collected again, e.g. after a dry run. Returns
+	 * the newly deleted bookmarks per book.
+	 */
+	applyDeletedHighlights(
+		content: Map<bookTitle, Map<chapter, Bookmark[]>>,
+		stamps: BookmarkStamp[],
+		watermark: ImportWatermark,
+		policyFor: (_title: bookTitle) => DeletedHighlightPolicy,
+	): Map<bookTitle, ImportedBookmark[]> {
+		const currentIds = new Set(stamps.map((s) => s.bookmarkId));
+		const newlyDeleted = new Map<bookTitle, ImportedBookmark[]>();
+
+		for (const [title, book] of Object.entries(watermark.books)) {
+			const deleted = book.bookmarks.filter(
+				(b) => !currentIds.has(b.bookmarkId),
+			);
+			const fresh = deleted.filter((b) => !b.deletedOnDevice);
+			if (fresh.length > 0) {
+				newlyDeleted.set(title, fresh);
+			}
+
+			let chapters = content.get(title);
+			if (!chapters) {
+				if (fresh.length == 0) {
+					continue;
+				}
+				chapters = this.createEmptyContentMap();
+				content.set(title, chapters);
+			}
+
+			const policy = policyFor(title);
+			if (policy == "remove") {
+				continue;
+			}
+
+			chapters = new Map(
+				Array.from(chapters, ([name, bookmarks]) => [name, [...bookmarks]]),
+			);
+			content.set(title, chapters);
+
+			for (const imported of deleted) {
+				const chapterName =
+					policy == "archive"
+						? this.archivedChapterTitle
+						: imported.chapter;
+				const bookmark: Bookmark = {
+					bookmarkId: imported.bookmarkId,
+					text: imported.text,
+					contentId: imported.contentId,
+					note: imported.note,
+					dateCreated: new Date(imported.dateCreated),
+					color: imported.color,
+					deletedOnDevice: true,
+					kind: imported.kind,
+					chapterProgress: imported.chapterProgress,
+				};
+
+				const existing = chapters.get(chapterName);
+				if (existing) {
+					existing.push(bookmark);
+				} else {
+					chapters.set(chapterName, [bookmark]);
+				}
+			}
+		}
+
+		return newlyDeleted;
+	}
+
+	/**
+	 * Computes the watermark to persist after writing `content`. Books that
+	 * were not part of this import keep their previously recorded bookmarks.
+	 */
+	updateWatermark(
+		previous: ImportWatermark | undefined,
+		stamps: BookmarkStamp[],
+		content: Map<bookTitle, Map<chapter, Bookmark[]>>,
+	): ImportWatermark {
+		const books = { ...previous?.books };
+		for (const [title, chapters] of content) {
+			const previousBook = previous?.books[title];
+			const imported: ImportedBookmark[] = [];
+
+			for (const [chapterName, bookmarks] of chapters) {
+				for (const b of bookmarks) {
+					// Archived bookmarks keep the chapter they were created in
+					const originalChapter = previousBook?.bookmarks.find(
+						(p) => p.bookmarkId == b.bookmarkId,
+					)?.chapter;
+
+					imported.push({
+						bookmarkId: b.bookmarkId,
+						contentId: b.contentId,
+						chapter:
+							b.deletedOnDevice && originalChapter
+								? originalChapter
+								: chapterName,
+						text: b.text,
+						note: b.note,
+						color: b.color,
+						dateCreated: b.dateCreated.toISOString(),
+						deletedOnDevice: b.deletedOnDevice,
+						kind: b.kind,
+						chapterProgress: b.chapterProgress,
+						// For the vocabulary review, only kept when known
+						...(b.context ? { context: b.context } : {}),
+					});
+				}
+			}
+
+			const volumeId = Array.from(chapters.values())
+				.flat()
+				.find((b) => b.volumeId)?.volumeId;
+			books[title] = {
+				volumeId: volumeId ?? previousBook?.volumeId,
+				bookmarks: imported,
+			};
+		}
+
+		let lastCreated = previous?.lastDateCreated
+			? new Date(previous.lastDateCreated).getTime()
+			: -Infinity;
+		let lastModified = previous?.lastDateModified
+			? new Date(previous.lastDateModified).getTime()
+			: -Infinity;
+		for (const stamp of stamps) {
+			// Unparseable dates yield NaN, which would poison Math.max
+			lastCreated = Math.max(
+				lastCreated,
+				stamp.dateCreated.getTime() || -Infinity,
+			);
+			lastModified = Math.max(
+				lastModified,
+				stamp.dateModified?.getTime() || -Infinity,
+			);
+		}
+
+		return {
+			lastDateCreated: isFinite(lastCreated)
+				? new Date(lastCreated).toISOString()
+				: undefined,
+			lastDateModified: isFinite(lastModified)
+				? new Date(lastModified).toISOString()
+				: undefined,
+			books,
+		};
+	}
+
 	async createHighlightFromBookmark(bookmark: Bookmark): Promise<Highlight> {
 		let content = await this.repo.getContentByContentId(bookmark.contentId);
 
@@ -167,6 +447,22 @@ export class HighlightService {
 		return bookMap;
 	}
 
+	async getReadingSessions(): Promise<ReadingSession[]> {
+		return await this.repo.getReadingSessions();
+	}
+
+	/**
+	 * Reading statistics of the device, from `sessions` when given, e.g. the
+	 * ones kept from previous imports, otherwise from the device's sessions.
+	 */
+	async getReadingStats(sessions?: ReadingSession[]): Promise<ReadingStats> {
+		return computeReadingStats(
+			sessions ?? (await this.repo.getReadingSessions()),
+			await this.repo.getBookReadingInfo(),
+			await this.repo.getBookmarkStamps(),
+		);
+	}
+
 	async getAllContentByBookTitle(bookTitle: string): Promise<Content[]> {
 		return await this.repo.getAllContentByBookTitle(bookTitle);
 	}
@@ -6,6 +6,118 @@ export interface Bookmark {
 	note?: string;
 	dateCreated: Date;
 	color?: number;
+	volumeId?: string;
+	deletedOnDevice?: boolean;
+	// undefined is treated as "highlight"
+	kind?: AnnotationKind;
+	chapterProgress?: number;
+	markupFiles?: string[];
+	// Position of the highlight in the chapter file, e.g. "span#kobo\.5\.1"
+	startContainerPath?: string;
+	// Sentence around a vocabulary highlight, used for its definition
+	context?: string;
+	// Form of a vocabulary highlight that is defined, see normalizeVocabulary
+	lemma?: string;
+}
+
+export type AnnotationKind = "highlight" | "dogear" | "markup";
+
+export interface BookmarkStamp {
+	bookmarkId: string;
+	volumeId: string;
+	dateCreated: Date;
+	dateModified?: Date;
+}
+
+export interface ImportedBookmark {
+	bookmarkId: string;
+	contentId: string;
+	chapter: string;
+	text: string;
+	note?: string;
+	color?: number;
+	dateCreated: string;
+	deletedOnDevice?: boolean;
+	kind?: AnnotationKind;
+	chapterProgress?: number;
+	context?: string;
+}
+
+export interface ImportedBook {
+	volumeId?: string;
+	// Language the book was imported in, see renderBooks
+	language?: string;
+	bookmarks: ImportedBookmark[];
+}
+
+export interface ImportWatermark {
+	lastDateCreated?: string;
+	lastDateModified?: string;
+	// bookTitle -> bookmarks written to that book's note
+	books: Record<string, ImportedBook>;
+}
+
+export type DeletedHighlightPolicy = "remove" | "mark" | "archive";
+
+// Per-book overrides from the note's frontmatter, as two letter codes
+export interface BookLanguageOverrides {
+	// `kobo-language`: language of the book
+	language?: string;
+	// `definition-language`: language its definitions are written in
+	definitionLanguage?: string;
+}
+
+export interface HighlightType {
+	// Kobo Bookmark.Color value
+	color: number;
+	colorName: string;
+	type: string;
+	// Obsidian callout, e.g. "quote" for > [!quote]. Empty for none
+	callout: string;
+	tags: string[];
+	// Fetch definitions and render as a flashcard
+	vocabulary: boolean;
+}
+
+export interface Definition {
+	definition: string;
+	// The word in the translation language, when one is set
+	translation?: string;
+	// Part of speech, e.g. "noun"
+	pos?: string;
+	// A short sentence using the word
+	example?: string;
+}
+
+export interface CachedDefinition extends Definition {
+	// Normalized, see normalizeWord
+	word: string;
+	language: string;
+	// Provider and model that produced the definition, e.g. "ollama/llama3.2"
+	provider: string;
+	// Language of `translation`
+	translationLanguage?: string;
+	dateCreated: string;
+}
+
+// Spaced repetition of a vocabulary highlight, see scheduleReview
+export interface ReviewState {
+	due: string;
+	// Days until the next review once answered correctly
+	interval: number;
+	ease: number;
+	// Correct answers in a row
+	repetitions: number;
+	lapses: number;
+	lastReview?: string;
+}
+
+export type BookStatus = "new" | "changed" | "unchanged";
+
+export interface BookPreview {
+	title: string;
+	status: BookStatus;
+	highlightCount: number;
 }
 
 export interface Content {
@@ -32,6 +144,42 @@ export interface BookDetails {
 	series?: string;
 	seriesNumber?: number;
 	timeSpentReading?: number;
+	// As stored by the Kobo, e.g. "en", "fr-FR"
+	language?: string;
+}
+
+// Recorded in the AnalyticsEvents table each time a book is closed, until
+// the Kobo syncs them to its servers
+export interface ReadingSession {
+	// Id of the event, or the book and end of the session on older firmware
+	id: string;
+	volumeId: string;
+	// From the event, for books no longer on the device
+	title?: string;
+	start: Date;
+	end: Date;
+	secondsRead: number;
+	pagesTurned: number;
+}
+
+// A reading session kept in the plugin data, with ISO dates
+export interface StoredReadingSession
+	extends Omit<ReadingSession, "start" | "end"> {
+	start: string;
+	end: string;
+}
+
+// Reading progress the Kobo keeps for each book
+export interface BookReadingInfo {
+	volumeId: string;
+	title: string;
+	// In seconds, across all sessions, synced ones included
+	timeSpentReading: number;
+	firstTimeReading?: Date;
+	lastTimeStartedReading?: Date;
+	lastTimeFinishedReading?: Date;
+	// Interactions with the book counted in the Event table
+	eventCount: number;
 }
 
 export enum ReadStatus {
@@ -101,3 +101,128 @@ describe("Repository", async function () {
 		});
 	});
 });
+
+describe("Repository annotation kinds", async function () {
+	let db: Database;
+	let repo: Repository;
+
+	before(async function () {
+		const SQLEngine = await SqlJs({
+			wasmBinary: binary.buffer,
+		});
+
+		db = new SQLEngine.Database();
+		db.run(`create table Bookmark (
+			BookmarkID text, VolumeID text, ContentID text, Text text,
+			annotation text, DateCreated text, DateModified text,
+			ChapterProgress real, Color integer, Type text, MarkupFiles text
+		);`);
+		db.run(`insert into Bookmark values
+			('highlight', 'volume', 'content', 'Some text', null, '2024-01-01T00:00:00Z', null, 0.1, 0, 'highlight', null),
+			('dogear', 'volume', 'content', null, null, '2024-01-02T00:00:00Z', null, 0.5, null, 'dogear', null),
+			('markup', 'volume', 'content', null, null, '2024-01-03T00:00:00Z', null, 0.7, null, 'markup', '["markup.svg", "markup.jpg"]'),
+			('empty', 'volume', 'content', null, null, '2024-01-04T00:00:00Z', null, 0.9, null, 'highlight', null);`);
+		repo = new Repository(db);
+	});
+
+	after(function () {
+		db.close();
+	});
+
+	it("getAllBookmark reads dogears and markups", async function () {
+		const bookmarks = await repo.getAllBookmark();
+
+		chai.expect(bookmarks.map((b) => [b.bookmarkId, b.kind])).to.deep.equal([
+			["highlight", "highlight"],
+			["dogear", "dogear"],
+			["markup", "markup"],
+		]);
+		chai.expect(bookmarks[1].chapterProgress).to.equal(0.5);
+		chai.expect(bookmarks[2].markupFiles).to.deep.equal([
+			"markup.svg",
+			"markup.jpg",
+		]);
+	});
+
+	it("getBookmarkStamps includes dogears and markups", async function () {
+		chai.expect(await repo.getBookmarkStamps()).to.have.length(3);
+		chai.expect(await repo.getTotalBookmark()).to.equal(3);
+	});
+});
+
+describe("Repository reading statistics", async function () {
+	let db: Database;
+	let repo: Repository;
+
+	before(async function () {
+		const SQLEngine = await SqlJs({
+			wasmBinary: binary.buffer,
+		});
+
+		db = new SQLEngine.Database();
+		db.run(`create table content (
+			ContentID text, ContentType integer, Title text,
+			TimeSpentReading integer, LastTimeStartedReading text
+		);`);
+		db.run(`insert into content values
+			('book', 6, 'Book', 3600, '2024-01-03T20:00:00Z'),
+			('book!chapter', 9, 'Chapter 1', null, null);`);
+		db.run(`create table AnalyticsEvents (
+			Id text, Type text, Timestamp text, Attributes text, Metrics text
+		);`);
+		db.run(`insert into AnalyticsEvents values
+			('1', 'LeaveContent', '2024-01-02T10:10:00Z', '{"volumeid": "book", "title": "Book"}', '{"SecondsRead": 600, "PagesTurned": 12}'),
+			('2', 'OpenContent', '2024-01-02T10:00:00Z', '{"volumeid": "book"}', '{}'),
+			('3', 'LeaveContent', '2024-01-03T10:00:00Z', 'not json', null);`);
+		db.run(`create table Event (
+			EventType integer, FirstOccurrence text, LastOccurrence text,
+			EventCount integer, ContentID text
+		);`);
+		db.run(`insert into Event values
+			(1, '2024-01-01T09:00:00Z', '2024-01-03T20:00:00Z', 3, 'book'),
+			(2, '2024-01-02T09:00:00Z', '2024-01-02T09:00:00Z', 1, 'book');`);
+		repo = new Repository(db);
+	});
+
+	after(function () {
+		db.close();
+	});
+
+	it("getReadingSessions reads the LeaveContent events", async function () {
+		chai.expect(await repo.getReadingSessions()).to.deep.equal([
+			{
+				id: "1",
+				volumeId: "book",
+				title: "Book",
+				start: new Date("2024-01-02T10:00:00Z"),
+				end: new Date("2024-01-02T10:10:00Z"),
+				secondsRead: 600,
+				pagesTurned: 12,
+			},
+		]);
+	});
+
+	it("getBookReadingInfo reads the content and Event tables", async function () {
+		chai.expect(await repo.getBookReadingInfo()).to.deep.equal([
+			{
+				volumeId: "book",
+				title: "Book",
+				timeSpentReading: 3600,
+				firstTimeReading: new Date("2024-01-01T09:00:00Z"),
+				lastTimeStartedReading: new Date("2024-01-03T20:00:00Z"),
+				lastTimeFinishedReading: undefined,
+				eventCount: 4,
+			},
+		]);
+	});
+
+	it("getReadingSessions without the AnalyticsEvents table", async function () {
+		const SQLEngine = await SqlJs({
+			wasmBinary: binary.buffer,
+		});
+		const emptyDb = new SQLEngine.Database();
+
+		chai.expect(await new Repository(emptyDb).getReadingSessions()).to.deep.equal([]);
+		emptyDb.close();
+	});
+});
@@ -1,27 +1,97 @@
-import { Database, Statement } from "sql.js";
-import { BookDetails, Bookmark, Content } from "./interfaces";
+import { Database, SqlValue, Statement } from "sql.js";
+import {
+	AnnotationKind,
+	BookDetails,
+	Bookmark,
+	BookmarkStamp,
+	BookReadingInfo,
+	Content,
+	ReadingSession,
+} from "./interfaces";
+
+function parseAnnotationKind(type?: string): AnnotationKind {
+	switch (type) {
+		case "dogear":
+			return "dogear";
+		case "markup":
+			return "markup";
+		default:
+			// "highlight", "note" (a highlight with an annotation) or no Type column
+			return "highlight";
+	}
+}
+
+function parseJsonObject(value: SqlValue): Record<string, unknown> {
+	try {
+		const parsed = JSON.parse(String(value ?? ""));
+		if (parsed && typeof parsed == "object" && !Array.isArray(parsed)) {
+			return parsed;
+		}
+	} catch {
+		// Not JSON
+	}
+
+	return {};
+}
+
+function parseDate(value: SqlValue): Date | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	const date = new Date(value.toString());
+	return isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseMarkupFiles(value: string): string[] {
+	try {
+		const parsed = JSON.parse(value);
+		if (Array.isArray(parsed)) {
+			return parsed.map(String);
+		}
+	} catch {
+		// Not JSON, fall back to a separated list
+	}
+
+	return value
+		.split(/[,;\n]/)
+		.map((file) => file.trim())
+		.filter((file) => file.length > 0);
+}
 
 export class Repository {
 	db: Database;
+	private tableColumns = new Map<string, Set<string>>();
 
 	constructor(db: Database) {
 		this.db = db;
 	}
 
-	async getAllBookmark(sortByChapterProgress?: boolean): Promise<Bookmark[]> {
-		let res;
-		if (sortByChapterProgress) {
-			res = this.db.exec(
-				`select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress, Color from Bookmark where Text is not null order by ChapterProgress ASC, DateCreated ASC;`,
-			);
-		} else {
-			res = this.db.exec(
-				`select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress, Color from Bookmark where Text is not null order by DateCreated ASC;`,
-			);
+	async getAllBookmark(
+		sortByChapterProgress?: boolean,
+		volumeIds?: string[],
+	): Promise<Bookmark[]> {
+		if (volumeIds && volumeIds.length == 0) {
+			return [];
 		}
+
+		const params: Record<string, string> = {};
+		let volumeFilter = "";
+		if (volumeIds) {
+			volumeIds.forEach((id, i) => (params[`$volume${i}`] = id));
+			volumeFilter = ` and VolumeID in (${Object.keys(params).join(", ")})`;
+		}
+
+		const order = sortByChapterProgress
+			? "ChapterProgress ASC, DateCreated ASC"
+			: "DateCreated ASC";
+		const res = this.db.exec(
+			`select ${this.bookmarkColumns()} from Bookmark where ${this.bookmarkFilter()}${volumeFilter} order by ${order};`,
+			params,
+		);
 		const bookmarks: Bookmark[] = [];
 
-		if (res[0].values == undefined) {
+		if (res.length == 0 || res[0].values == undefined) {
 			console.warn(
 				"Bookmarks table returend no results, do you have any annotations created?",
 			);
@@ -30,7 +100,8 @@ export class Repository {
 		}
 
 		res[0].values.forEach((row) => {
-			if (!(row[0] && row[1] && row[2] && row[4])) {
+			const bookmark = this.parseBookmarkRow(row);
+			if (!bookmark) {
 				console.warn(
 					"Skipping bookmark with invalid values",
 					row[0],
@@ -43,24 +114,54 @@ export class Repository {
 				return;
 			}
 
-		const colorValue = row[6] != null ? +row[6].toString() : undefined;
-		console.log(`Bookmark text: ${row[1].toString().substring(0, 20)}, Color value: ${colorValue}, row[6]: ${row[6]}`);
-		bookmarks.push({
-			bookmarkId: row[0].toString(),
-			text: row[1].toString().replace(/\s+/g, " ").trim(),
-			contentId: row[2].toString(),
-			note: row[3]?.toString(),
-			dateCreated: new Date(row[4].toString()),
-			color: colorValue,
-			});
+			bookmarks.push(bookmark);
 		});
 
 		return bookmarks;
 	}
 
+	async getBookmarkStamps(): Promise<BookmarkStamp[]> {
+		const statement = this.db.prepare(
+			`select BookmarkID, VolumeID, DateCreated, DateModified from Bookmark where ${this.bookmarkFilter()};`,
+		);
+		const stamps: BookmarkStamp[] = [];
+
+		while (statement.step()) {
+			const row = statement.get();
+			if (!(row[0] && row[1] && row[2])) {
+				continue;
+			}
+
+			stamps.push({
+				bookmarkId: row[0].toString(),
+				volumeId: row[1].toString(),
+				dateCreated: new Date(row[2].toString()),
+				dateModified: row[3] ? new Date(row[3].toString()) : undefined,
+			});
+		}
+
+		statement.free();
+		return stamps;
+	}
+
+	// Kobo does not store the device serial in the database, so the signed-in
+	// user is the closest thing to a stable device identifier.
+	async getDeviceId(): Promise<string> {
+		try {
+			const res = this.db.exec(`select UserID from user limit 1;`);
+			const id = res[0]?.values[0]?.[0];
+
+			return id ? id.toString() : "default";
+		} catch (error) {
+			console.warn("Could not read device id, using default", error);
+
+			return "default";
+		}
+	}
+
 	async getTotalBookmark(): Promise<number> {
 		const res = this.db.exec(
-			`select count(*) from Bookmark where Text is not null;`,
+			`select count(*) from Bookmark where ${this.bookmarkFilter()};`,
 		);
 
 		return +res[0].values[0].toString();
@@ -68,7 +169,7 @@ export class Repository {
 
 	async getBookmarkById(id: string): Promise<Bookmark | null> {
 		const statement = this.db.prepare(
-			`select BookmarkID, Text, ContentID, annotation, DateCreated, ChapterProgress, Color from Bookmark where BookmarkID = $id;`,
+			`select ${this.bookmarkColumns()} from Bookmark where BookmarkID = $id;`,
 			{
 				$id: id,
 			},
@@ -78,19 +179,86 @@ export class Repository {
 			return null;
 		}
 
-		const row = statement.get();
+		const bookmark = this.parseBookmarkRow(statement.get());
+		statement.free();
 
-		if (!(row[0] && row[1] && row[2] && row[4])) {
+		if (!bookmark) {
 			throw new Error("Bookmark column returned unexpected null");
 		}
 
+		return bookmark;
+	}
+
+	/**
+	 * Older firmware has no `Type` column and only stores text highlights;
+	 * `MarkupFiles` only exists on devices with stylus support and
+	 * `ContextString` on recent firmware.
+	 */
+	private getBookmarkTableColumns(): Set<string> {
+		return this.getTableColumns("Bookmark");
+	}
+
+	// Empty when the table does not exist on this firmware
+	private getTableColumns(table: string): Set<string> {
+		let columns = this.tableColumns.get(table);
+		if (!columns) {
+			const res = this.db.exec(`pragma table_info(${table});`);
+			columns = new Set((res[0]?.values ?? []).map((row) => String(row[1])));
+			this.tableColumns.set(table, columns);
+		}
+
+		return columns;
+	}
+
+	private bookmarkColumns(): string {
+		const columns = this.getBookmarkTableColumns();
+
+		return [
+			"BookmarkID",
+			"Text",
+			"ContentID",
+			"annotation",
+			"DateCreated",
+			"ChapterProgress",
+			"Color",
+			"VolumeID",
+			columns.has("Type") ? "Type" : "NULL",
+			columns.has("MarkupFiles") ? "MarkupFiles" : "NULL",
+			columns.has("StartContainerPath") ? "StartContainerPath" : "NULL",
+			columns.has("ContextString") ? "ContextString" : "NULL",
+		].join(", ");
+	}
+
+	private bookmarkFilter(): string {
+		return this.getBookmarkTableColumns().has("Type")
+			? "(Text is not null or Type in ('dogear', 'markup'))"
+			: "Text is not null";
+	}
+
+	private parseBookmarkRow(row: SqlValue[]): Bookmark | null {
+		const kind = parseAnnotationKind(row[8]?.toString());
+		const hasText = kind != "highlight" || !!row[1];
+		if (!(row[0] && hasText && row[2] && row[4])) {
+			return null;
+		}
+
 		return {
 			bookmarkId: row[0].toString(),
-			text: row[1].toString().replace(/\s+/g, " ").trim(),
+			text: (row[1]?.toString() ?? "").replace(/\s+/g, " ").trim(),
 			contentId: row[2].toString(),
 			note: row[3]?.toString(),
 			dateCreated: new Date(row[4].toString()),
 			color: row[6] != null ? +row[6].toString() : undefined,
+			volumeId: row[7]?.toString(),
+			kind,
+			chapterProgress: row[5] != null ? +row[5].toString() : undefined,
+			markupFiles:
+				kind == "markup" && row[9]
+					? parseMarkupFiles(row[9].toString())
+					: undefined,
+			startContainerPath: row[10]?.toString() || undefined,
+			context:
+				row[11]?.toString().replace(/\s+/g, " ").trim() || undefined,
 		};
 	}
 
@@ -187,7 +355,7 @@ export class Repository {
 		bookTitle: string,
 	): Promise<BookDetails | null> {
 		const statement = this.db.prepare(
-			`select Attribution, Description, Publisher, DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading from content where Title = $title limit 1;`,
+			`select Attribution, Description, Publisher, DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading, Language from content where Title = $title limit 1;`,
 			{
 				$title: bookTitle,
 			},
@@ -201,7 +369,7 @@ export class Repository {
 
 		if (row.length == 0 || row[0] == null) {
 			console.debug(
-				"Used query: select Attribution, Description, Publisher, DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading from content where Title = $title limit 2;",
+				"Used query: select Attribution, Description, Publisher, DateLastRead, ReadStatus, ___PercentRead, ISBN, Series, SeriesNumber, TimeSpentReading, Language from content where Title = $title limit 2;",
 				{ $title: bookTitle, result: row },
 			);
 			console.warn("Could not find book details in database");
@@ -221,6 +389,7 @@ export class Repository {
 			series: row[7]?.toString(),
 			seriesNumber: row[8] ? +row[8].toString() : undefined,
 			timeSpentReading: row[9] ? +row[9].toString() : 0,
+			language: row[10]?.toString() || undefined,
 		};
 	}
 
@@ -237,7 +406,8 @@ export class Repository {
                 ISBN,
                 Series,
                 SeriesNumber,
-                TimeSpentReading
+                TimeSpentReading,
+                Language
             FROM content 
             WHERE Title IS NOT NULL 
             ORDER BY Title ASC;`,
@@ -263,6 +433,7 @@ export class Repository {
 				series: row[8]?.toString(),
 				seriesNumber: row[9] ? +row[9].toString() : undefined,
 				timeSpentReading: row[10] ? +row[10].toString() : 0,
+				language: row[11]?.toString() || undefined,
 			});
 		}
 
@@ -270,6 +441,101 @@ export class Repository {
 		return books;
 	}
 
+	/**
+	 * Reading sessions from the `LeaveContent` events, oldest first. Their
+	 * Attributes and Metrics columns are JSON, e.g. `{"volumeid": "..."}` and
+	 * `{"SecondsRead": 300, "PagesTurned": 12}`.
+	 */
+	async getReadingSessions(): Promise<ReadingSession[]> {
+		const columns = this.getTableColumns("AnalyticsEvents");
+		if (!["Type", "Timestamp", "Attributes", "Metrics"].every((c) => columns.has(c))) {
+			return [];
+		}
+
+		const statement = this.db.prepare(
+			`select Timestamp, Attributes, Metrics, ${columns.has("Id") ? "Id" : "NULL"} from AnalyticsEvents where Type = 'LeaveContent' order by Timestamp ASC;`,
+		);
+		const sessions: ReadingSession[] = [];
+
+		while (statement.step()) {
+			const row = statement.get();
+			const end = parseDate(row[0]);
+			const attributes = parseJsonObject(row[1]);
+			const metrics = parseJsonObject(row[2]);
+			const volumeId = attributes.volumeid ?? attributes.VolumeId;
+			const secondsRead = +(metrics.SecondsRead ?? 0);
+			if (!end || !volumeId || !(secondsRead > 0)) {
+				continue;
+			}
+
+			sessions.push({
+				id: row[3] ? String(row[3]) : `${volumeId}@${end.toISOString()}`,
+				volumeId: String(volumeId),
+				title: attributes.title ? String(attributes.title) : undefined,
+				start: new Date(end.getTime() - secondsRead * 1000),
+				end,
+				secondsRead,
+				pagesTurned: +(metrics.PagesTurned ?? 0) || 0,
+			});
+		}
+
+		statement.free();
+		return sessions;
+	}
+
+	/**
+	 * Reading progress of every book from the content table, with the number
+	 * of events of each book from the Event table. Columns missing on older
+	 * firmware are left undefined.
+	 */
+	async getBookReadingInfo(): Promise<BookReadingInfo[]> {
+		const columns = this.getTableColumns("content");
+		const column = (name: string) => (columns.has(name) ? name : "NULL");
+		const statement = this.db.prepare(
+			`select ContentID, Title, ${column("TimeSpentReading")}, ${column("FirstTimeReading")}, ${column("LastTimeStartedReading")}, ${column("LastTimeFinishedReading")} from content where ContentType = 6 and Title IS NOT NULL;`,
+		);
+		const books = new Map<string, BookReadingInfo>();
+
+		while (statement.step()) {
+			const row = statement.get();
+			if (!row[0]) {
+				continue;
+			}
+
+			books.set(row[0].toString(), {
+				volumeId: row[0].toString(),
+				title: String(row[1]),
+				timeSpentReading: row[2] ? +row[2].toString() : 0,
+				firstTimeReading: parseDate(row[3]),
+				lastTimeStartedReading: parseDate(row[4]),
+				lastTimeFinishedReading: parseDate(row[5]),
+				eventCount: 0,
+			});
+		}
+		statement.free();
+
+		const eventColumns = this.getTableColumns("Event");
+		if (["ContentID", "EventCount", "FirstOccurrence"].every((c) => eventColumns.has(c))) {
+			const events = this.db.prepare(
+				`select ContentID, sum(EventCount), min(FirstOccurrence) from Event group by ContentID;`,
+			);
+			while (events.step()) {
+				const row = events.get();
+				const book = row[0] ? books.get(row[0].toString()) : undefined;
+				if (!book) {
+					continue;
+				}
+
+				book.eventCount = row[1] ? +row[1].toString() : 0;
+				// The first event of a book is when it was first opened
+				book.firstTimeReading ??= parseDate(row[2]);
+			}
+			events.free();
+		}
+
+		return Array.from(books.values());
+	}
+
 	private parseContentStatement(statement: Statement): Content[] {
 		const contents: Content[] = [];
 
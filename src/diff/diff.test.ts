@@ -0,0 +1,56 @@
+import * as chai from "chai";
+import { createUnifiedDiff, diffLines } from "./diff";
+
+describe("diff", async function () {
+	it("diffLines marks added and removed lines", async function () {
+		chai.expect(diffLines(["a", "b", "c"], ["a", "c", "d"])).to.deep.equal([
+			{ type: " ", text: "a" },
+			{ type: "-", text: "b" },
+			{ type: " ", text: "c" },
+			{ type: "+", text: "d" },
+		]);
+	});
+
+	it("createUnifiedDiff identical", async function () {
+		chai.expect(createUnifiedDiff("note.md", "a\nb", "a\nb")).equal("");
+	});
+
+	it("createUnifiedDiff new file", async function () {
+		chai.expect(createUnifiedDiff("note.md", null, "a\nb")).equal(
+			`--- /dev/null
++++ b/note.md
+@@ -0,0 +1,2 @@
++a
++b`,
+		);
+	});
+
+	it("createUnifiedDiff splits distant changes into hunks", async function () {
+		const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+		const newText = [...oldText];
+		newText[1] = "changed 2";
+		newText[17] = "changed 18";
+
+		chai.expect(
+			createUnifiedDiff(
+				"note.md",
+				oldText.join("\n"),
+				newText.join("\n"),
+				1,
+			),
+		).equal(
+			`--- a/note.md
++++ b/note.md
+@@ -1,3 +1,3 @@
+ line 1
+-line 2
++changed 2
+ line 3
+@@ -17,3 +17,3 @@
+ line 17
+-line 18
++changed 18
+ line 19`,
+		);
+	});
+});
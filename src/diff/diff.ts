@@ -0,0 +1,150 @@
+export interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+}
+
+function splitLines(text: string | null): string[] {
+	return text == null ? [] : text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Line based diff using the longest common subsequence. Common prefix and
+ * suffix are stripped first, so re-imports that only touch a few chapters
+ * stay cheap even on long notes.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+	let prefix = 0;
+	while (
+		prefix < oldLines.length &&
+		prefix < newLines.length &&
+		oldLines[prefix] === newLines[prefix]
+	) {
+		prefix++;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] ===
+			newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const a = oldLines.slice(prefix, oldLines.length - suffix);
+	const b = newLines.slice(prefix, newLines.length - suffix);
+
+	// lcs[i * (b.length + 1) + j] = LCS length of a[i..] and b[j..]
+	const width = b.length + 1;
+	const lcs = new Uint32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i * width + j] =
+				a[i] === b[j]
+					? lcs[(i + 1) * width + j + 1] + 1
+					: Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = oldLines
+		.slice(0, prefix)
+		.map((text) => ({ type: " ", text }));
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ type: " ", text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+			result.push({ type: "-", text: a[i++] });
+		} else {
+			result.push({ type: "+", text: b[j++] });
+		}
+	}
+	while (i < a.length) {
+		result.push({ type: "-", text: a[i++] });
+	}
+	while (j < b.length) {
+		result.push({ type: "+", text: b[j++] });
+	}
+
+	for (const text of oldLines.slice(oldLines.length - suffix)) {
+		result.push({ type: " ", text });
+	}
+
+	return result;
+}
+
+function hunkRange(start: number, length: number): string {
+	// An empty range points at the line before it, as in `diff -u`
+	return `${length == 0 ? start - 1 : start},${length}`;
+}
+
+/**
+ * Creates a unified diff between two versions of a file. A `null` old
+ * version means the file does not exist yet. Returns an empty string when
+ * both versions are identical.
+ */
+export function createUnifiedDiff(
+	fileName: string,
+	oldText: string | null,
+	newText: string,
+	context = 3,
+): string {
+	const lines = diffLines(splitLines(oldText), splitLines(newText));
+
+	const changed: number[] = [];
+	lines.forEach((line, index) => {
+		if (line.type != " ") {
+			changed.push(index);
+		}
+	});
+
+	if (changed.length == 0) {
+		return "";
+	}
+
+	const output = [
+		oldText == null ? "--- /dev/null" : `--- a/${fileName}`,
+		`+++ b/${fileName}`,
+	];
+
+	let groupStart = 0;
+	while (groupStart < changed.length) {
+		let groupEnd = groupStart;
+		while (
+			groupEnd + 1 < changed.length &&
+			changed[groupEnd + 1] - changed[groupEnd] <= context * 2 + 1
+		) {
+			groupEnd++;
+		}
+
+		const from = Math.max(0, changed[groupStart] - context);
+		const to = Math.min(lines.length, changed[groupEnd] + context + 1);
+
+		let oldStart = 1;
+		let newStart = 1;
+		for (const line of lines.slice(0, from)) {
+			if (line.type != "+") oldStart++;
+			if (line.type != "-") newStart++;
+		}
+
+		const hunk = lines.slice(from, to);
+		const oldLength = hunk.filter((l) => l.type != "+").length;
+		const newLength = hunk.filter((l) => l.type != "-").length;
+
+		output.push(
+			`@@ -${hunkRange(oldStart, oldLength)} +${hunkRange(newStart, newLength)} @@`,
+		);
+		for (const line of hunk) {
+			output.push(`${line.type}${line.text}`);
+		}
+
+		groupStart = groupEnd + 1;
+	}
+
+	return output.join("\n");
+}
@@ -1,21 +1,37 @@
-import { addIcon, Plugin } from "obsidian";
+import { addIcon, normalizePath, Notice, Plugin } from "obsidian";
+import { BookSuggestModal } from "./modal/BookSuggestModal";
+import { DefinitionCacheModal } from "./modal/DefinitionCacheModal";
 import { ExtractHighlightsModal } from "./modal/ExtractHighlightsModal";
+import {
+	AnkiCard,
+	createAnkiCards,
+	formatAnkiFile,
+	getImportedChapters,
+} from "./services/AnkiExport";
+import { DefinitionCache } from "./services/DefinitionCache";
+import { readBinaryFile } from "./services/DevicePaths";
+import { DeviceWatcher } from "./services/DeviceWatcher";
+import { getBookFileName, ImportService } from "./services/ImportService";
 import {
 	DEFAULT_SETTINGS,
 	KoboHighlightsImporterSettings,
 	KoboHighlightsImporterSettingsTab,
 } from "./settings/Settings";
+import { parseNoteDefinitions } from "./template/template";
+import { REVIEW_VIEW_TYPE, ReviewView } from "./view/ReviewView";
 
 const EREADER_ICON_PATH = `<path stroke="currentColor" fill="currentColor" d="M 68.15625 55.882812 C 67.609375 54.335938 66.207031 53.367188 64.566406 53.367188 L 62.085938 53.367188 L 62.085938 8.894531 C 62.085938 4.367188 58.457031 0.773438 53.886719 0.773438 L 9.761719 0.773438 C 4.910156 0.773438 0.78125 4.859375 0.78125 9.667969 L 0.78125 80.4375 C 0.78125 85.039062 5.058594 88.945312 9.664062 88.945312 L 54.261719 88.945312 C 54.734375 88.945312 55.148438 89.324219 55.113281 89.792969 C 55.074219 90.28125 54.664062 90.492188 54.179688 90.492188 L 36.410156 90.492188 L 49.980469 98.226562 L 81.21875 98.226562 Z M 32.039062 85.15625 C 30.789062 85.15625 29.851562 84.226562 29.851562 82.992188 C 29.851562 81.8125 30.851562 80.824219 32.039062 80.824219 C 33.289062 80.824219 34.226562 81.753906 34.226562 82.988281 C 34.1875 84.226562 33.289062 85.15625 32.039062 85.15625 Z M 56.230469 53.367188 L 48.554688 53.367188 C 46.484375 53.367188 44.730469 55.183594 44.730469 57.234375 C 44.730469 59.285156 46.484375 61.101562 48.554688 61.101562 L 56.289062 61.101562 L 56.289062 77.34375 L 7.027344 77.34375 L 7.027344 11.988281 L 56.230469 11.988281 Z M 45.257812 15.898438 L 45.257812 43.113281 C 43.390625 43.113281 41.882812 44.605469 41.882812 46.453125 C 41.882812 48.300781 43.390625 49.796875 45.257812 49.796875 L 45.257812 51.09375 L 21.042969 51.09375 L 21.042969 51.078125 C 18.550781 50.980469 16.542969 48.949219 16.542969 46.453125 C 16.542969 46.242188 16.601562 20.539062 16.601562 20.539062 C 16.601562 17.988281 18.707031 15.902344 21.285156 15.902344 L 45.257812 15.902344 Z M 42.066406 43.082031 L 20.957031 43.125 C 19.21875 43.253906 17.839844 44.691406 17.839844 46.4375 C 17.839844 48.285156 19.363281 49.792969 21.226562 49.78125 L 42.027344 49.78125 C 41.144531 48.933594 40.574219 47.75 40.574219 46.4375 C 40.574219 45.113281 41.15625 43.929688 42.066406 43.082031 Z M 42.066406 43.082031 "/>`;
 
 export default class KoboHighlightsImporter extends Plugin {
 	settings!: KoboHighlightsImporterSettings;
+	deviceWatcher!: DeviceWatcher;
+	definitionCache!: DefinitionCache;
 
 	async onload() {
 		addIcon("e-reader", EREADER_ICON_PATH);
 		await this.loadSettings();
 
-		const openModal = () => new ExtractHighlightsModal(this.app, this.settings).open();
+		const openModal = () => new ExtractHighlightsModal(this.app, this).open();
 
 		this.addRibbonIcon("e-reader", "Import from Kobo", openModal)
 			.addClass("kobo-highlights-importer-icon");
@@ -26,9 +42,237 @@ export default class KoboHighlightsImporter extends Plugin {
 			callback: openModal,
 		});
 
+		this.addCommand({
+			id: "dry-run-import-from-kobo-sqlite",
+			name: "Dry run import from Kobo",
+			callback: () =>
+				new ExtractHighlightsModal(this.app, this, true).open(),
+		});
+
+		this.addCommand({
+			id: "reimport-from-last-kobo-database",
+			name: "Re-import from last Kobo database",
+			callback: () => this.importFromLastDatabase(),
+		});
+
+		this.addCommand({
+			id: "import-single-book-from-last-database",
+			name: "Import single book from last database",
+			callback: () => this.importSingleBookFromLastDatabase(),
+		});
+
+		this.registerView(
+			REVIEW_VIEW_TYPE,
+			(leaf) => new ReviewView(leaf, this),
+		);
+
+		this.addCommand({
+			id: "review-vocabulary",
+			name: "Review vocabulary",
+			callback: () => this.openReviewView(),
+		});
+
+		this.addCommand({
+			id: "export-to-anki",
+			name: "Export to Anki",
+			callback: () => this.exportToAnki(),
+		});
+
+		this.addCommand({
+			id: "inspect-definition-cache",
+			name: "Inspect definition cache",
+			callback: () => new DefinitionCacheModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: "clear-definition-cache",
+			name: "Clear definition cache",
+			callback: () => this.clearDefinitionCache(),
+		});
+
+		this.addCommand({
+			id: "export-definition-cache",
+			name: "Export definition cache",
+			callback: () => this.exportDefinitionCache(),
+		});
+
 		this.addSettingTab(
 			new KoboHighlightsImporterSettingsTab(this.app, this),
 		);
+
+		this.deviceWatcher = new DeviceWatcher(this);
+		this.app.workspace.onLayoutReady(() => this.deviceWatcher.start());
+	}
+
+	onunload() {
+		this.deviceWatcher?.stop();
+	}
+
+	private async loadLastDatabase(): Promise<ImportService | null> {
+		const databasePath =
+			this.settings.databasePath || this.settings.lastDatabasePath;
+		if (!databasePath) {
+			new Notice(
+				"No Kobo database imported yet, use \"Import from Kobo\" first",
+			);
+			return null;
+		}
+
+		try {
+			const importer = new ImportService(this.app, this);
+			await importer.load(await readBinaryFile(databasePath), databasePath);
+			return importer;
+		} catch (error) {
+			console.error(`Failed to read ${databasePath}:`, error);
+			new Notice(
+				`Failed to read ${databasePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+			return null;
+		}
+	}
+
+	async importFromLastDatabase() {
+		const importer = await this.loadLastDatabase();
+		if (!importer) {
+			return;
+		}
+
+		const selected = importer.getDefaultSelection(
+			!this.settings.incrementalImport,
+		);
+		if (selected.size == 0) {
+			new Notice("No new or changed highlights since the last import");
+			return;
+		}
+
+		try {
+			const count = await importer.importBooks(selected);
+			new Notice(
+				`Extracted highlights from ${count} book${count !== 1 ? "s" : ""}!`,
+			);
+		} catch (error) {
+			console.error("Error extracting highlights:", error);
+			new Notice(
+				`Failed to extract highlights: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async importSingleBookFromLastDatabase() {
+		const importer = await this.loadLastDatabase();
+		if (!importer) {
+			return;
+		}
+
+		const books = Array.from(importer.previews.values()).sort((a, b) =>
+			a.title.localeCompare(b.title),
+		);
+		new BookSuggestModal(this.app, books, async (book) => {
+			try {
+				await importer.importBooks(new Set([book.title]));
+				new Notice(`Extracted highlights from "${book.title}"`);
+			} catch (error) {
+				console.error("Error extracting highlights:", error);
+				new Notice(
+					`Failed to extract highlights: ${error instanceof Error ? error.message : "Unknown error"}`,
+				);
+			}
+		}).open();
+	}
+
+	async openReviewView() {
+		const existing = this.app.workspace.getLeavesOfType(REVIEW_VIEW_TYPE)[0];
+		if (existing) {
+			this.app.workspace.revealLeaf(existing);
+			if (existing.view instanceof ReviewView) {
+				await existing.view.startSession();
+			}
+			return;
+		}
+
+		await this.app.workspace.getLeaf("tab").setViewState({
+			type: REVIEW_VIEW_TYPE,
+			active: true,
+		});
+	}
+
+	/**
+	 * Writes the vocabulary (and quotes) of the imported books next to the
+	 * book notes, as a file for File > Import in Anki. The highlights come
+	 * from the import history and the definitions from the book notes, so
+	 * the Kobo does not need to be connected.
+	 */
+	async exportToAnki() {
+		const fileName = normalizePath(
+			`${this.settings.storageFolder}/kobo-anki.txt`,
+		);
+
+		try {
+			const cards: AnkiCard[] = [];
+			for (const [bookTitle, chapters] of getImportedChapters(
+				this.settings.importWatermarks,
+			)) {
+				const bookFileName = getBookFileName(this.settings, bookTitle);
+				if (!(await this.app.vault.adapter.exists(bookFileName))) {
+					continue;
+				}
+
+				cards.push(
+					...createAnkiCards(
+						bookTitle,
+						chapters,
+						parseNoteDefinitions(
+							await this.app.vault.adapter.read(bookFileName),
+						),
+						this.settings.highlightTypes,
+						{
+							deck: this.settings.ankiDeck,
+							includeQuotes: this.settings.ankiIncludeQuotes,
+						},
+					),
+				);
+			}
+
+			await this.app.vault.adapter.write(fileName, formatAnkiFile(cards));
+			new Notice(
+				`Exported ${cards.length} card${cards.length !== 1 ? "s" : ""} to ${fileName}`,
+			);
+		} catch (error) {
+			console.error("Error exporting to Anki:", error);
+			new Notice(
+				`Failed to export to Anki: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+
+	async clearDefinitionCache() {
+		const count = await this.definitionCache.clear();
+		new Notice(`Cleared ${count} cached definition${count !== 1 ? "s" : ""}`);
+	}
+
+	/**
+	 * Writes the definition cache as JSON next to the book notes, e.g. to
+	 * back it up or edit definitions in bulk.
+	 */
+	async exportDefinitionCache() {
+		const fileName = normalizePath(
+			`${this.settings.storageFolder}/kobo-definition-cache.json`,
+		);
+
+		try {
+			await this.app.vault.adapter.write(
+				fileName,
+				JSON.stringify(this.definitionCache.list(), null, "\t"),
+			);
+			new Notice(
+				`Exported ${this.definitionCache.size} definitions to ${fileName}`,
+			);
+		} catch (error) {
+			console.error("Error exporting the definition cache:", error);
+			new Notice(
+				`Failed to export the definition cache: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
 	}
 
 	async loadSettings() {
@@ -37,6 +281,12 @@ export default class KoboHighlightsImporter extends Plugin {
 			DEFAULT_SETTINGS,
 			await this.loadData(),
 		);
+		// Not shared with DEFAULT_SETTINGS, the cache mutates it
+		this.settings.definitionCache = { ...this.settings.definitionCache };
+		this.definitionCache = new DefinitionCache(
+			this.settings.definitionCache,
+			() => this.saveSettings(),
+		);
 	}
 
 	async saveSettings() {
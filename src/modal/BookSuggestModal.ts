@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { BookPreview } from "src/database/interfaces";
+
+export class BookSuggestModal extends FuzzySuggestModal<BookPreview> {
+	books: BookPreview[];
+	onChoose: (_book: BookPreview) => void;
+
+	constructor(
+		app: App,
+		books: BookPreview[],
+		onChoose: (_book: BookPreview) => void,
+	) {
+		super(app);
+		this.books = books;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Book to import");
+	}
+
+	getItems(): BookPreview[] {
+		return this.books;
+	}
+
+	getItemText(book: BookPreview): string {
+		return `${book.title} (${book.highlightCount} highlight${book.highlightCount !== 1 ? "s" : ""}, ${book.status})`;
+	}
+
+	onChooseItem(book: BookPreview): void {
+		this.onChoose(book);
+	}
+}
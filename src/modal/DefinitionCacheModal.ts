@@ -0,0 +1,87 @@
+import { App, Modal, Setting } from "obsidian";
+import KoboHighlightsImporter from "src/main";
+import { formatDefinition } from "src/template/template";
+
+// Rendering thousands of rows makes the modal sluggish
+const MAX_ROWS = 200;
+
+export class DefinitionCacheModal extends Modal {
+	plugin: KoboHighlightsImporter;
+	filter = "";
+	listEl!: HTMLDivElement;
+
+	constructor(app: App, plugin: KoboHighlightsImporter) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	private renderList() {
+		const { listEl } = this;
+		listEl.empty();
+
+		const filter = this.filter.trim().toLowerCase();
+		const entries = this.plugin.definitionCache
+			.list()
+			.filter(
+				(entry) =>
+					!filter ||
+					entry.word.includes(filter) ||
+					formatDefinition(entry).toLowerCase().includes(filter),
+			);
+
+		listEl.createEl("p", {
+			text: `${entries.length} of ${this.plugin.definitionCache.size} definitions${entries.length > MAX_ROWS ? `, showing the first ${MAX_ROWS}` : ""}`,
+		});
+
+		for (const entry of entries.slice(0, MAX_ROWS)) {
+			const rowEl = listEl.createDiv({
+				cls: "kobo-highlights-importer-preview-row",
+			});
+			rowEl.createEl("strong", { text: entry.word });
+			rowEl.createSpan({ text: formatDefinition(entry) });
+			rowEl.createSpan({
+				cls: "kobo-highlights-importer-preview-info",
+				text: `${entry.language}, ${entry.provider}`,
+			});
+		}
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: "Definition cache" });
+
+		new Setting(contentEl)
+			.addSearch((cb) => {
+				cb.setPlaceholder("Filter words or definitions").onChange(
+					(value) => {
+						this.filter = value;
+						this.renderList();
+					},
+				);
+			})
+			.addButton((cb) => {
+				cb.setButtonText("Export").onClick(() =>
+					this.plugin.exportDefinitionCache(),
+				);
+			})
+			.addButton((cb) => {
+				cb.setButtonText("Clear")
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.clearDefinitionCache();
+						this.renderList();
+					});
+			});
+
+		this.listEl = contentEl.createDiv({
+			cls: "kobo-highlights-importer-preview",
+		});
+		this.renderList();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
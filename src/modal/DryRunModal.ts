@@ -0,0 +1,73 @@
+import { App, Modal } from "obsidian";
+import { createUnifiedDiff } from "src/diff/diff";
+import { FileChange } from "src/services/ImportService";
+
+function lineClass(line: string): string | undefined {
+	if (line.startsWith("@@")) return "is-hunk";
+	if (line.startsWith("+")) return "is-added";
+	if (line.startsWith("-")) return "is-removed";
+
+	return undefined;
+}
+
+export class DryRunModal extends Modal {
+	changes: FileChange[];
+
+	constructor(app: App, changes: FileChange[]) {
+		super(app);
+		this.changes = changes;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: "Dry run" });
+
+		const diffs = this.changes
+			.map((change) => ({
+				change,
+				diff: createUnifiedDiff(
+					change.fileName,
+					change.oldContent,
+					change.newContent,
+				),
+			}))
+			.filter(({ diff }) => diff !== "");
+
+		const created = diffs.filter(({ change }) => change.oldContent == null);
+		contentEl.createEl("p", {
+			text: `${created.length} file(s) would be created, ${diffs.length - created.length} modified and ${this.changes.length - diffs.length} left unchanged. Nothing was written to the vault.`,
+		});
+
+		const attachments = this.changes.flatMap((change) => change.attachments);
+		if (attachments.length > 0) {
+			contentEl.createEl("p", {
+				text: `${attachments.length} markup image(s) would be copied: ${attachments.map((a) => a.fileName).join(", ")}`,
+			});
+		}
+
+		for (const { change, diff } of diffs) {
+			const lines = diff.split("\n").slice(2);
+			const added = lines.filter((l) => l.startsWith("+")).length;
+			const removed = lines.filter((l) => l.startsWith("-")).length;
+
+			const detailsEl = contentEl.createEl("details", {
+				cls: "kobo-highlights-importer-diff",
+			});
+			detailsEl.createEl("summary", {
+				text: `${change.fileName} (+${added} -${removed})${change.oldContent == null ? " new" : ""}`,
+			});
+
+			const preEl = detailsEl.createEl("pre");
+			diff.split("\n").forEach((line, index) => {
+				const cls = index < 2 ? "is-header" : lineClass(line);
+				preEl.createDiv({ text: line, cls });
+			});
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,316 +1,191 @@
-import { App, Modal, normalizePath, Notice } from "obsidian";
-import { sanitize } from "sanitize-filename-ts";
-import SqlJs from "sql.js";
-import { binary } from "src/binaries/sql-wasm";
-import { HighlightService } from "src/database/Highlight";
-import { BookDetails, Bookmark } from "src/database/interfaces";
-import { Repository } from "src/database/repository";
-import { KoboHighlightsImporterSettings } from "src/settings/Settings";
-import { OllamaService } from "src/services/OllamaService";
-import { applyTemplateTransformations } from "src/template/template";
-import { getTemplateContents } from "src/template/templateContents";
+import { App, Modal, Notice, Setting } from "obsidian";
+import { BookStatus } from "src/database/interfaces";
+import KoboHighlightsImporter from "src/main";
+import { DryRunModal } from "src/modal/DryRunModal";
+import { ImportService } from "src/services/ImportService";
+
+// Absolute path of a picked file. Electron's webUtils gives it on desktop
+// only; Electron is provided by Obsidian, not a dependency of the plugin.
+function getPathForFile(file: File): string | undefined {
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-require-imports
+		const { webUtils } = require("electron") as {
+			webUtils?: { getPathForFile(_file: File): string };
+		};
+		return webUtils?.getPathForFile(file) || undefined;
+	} catch {
+		return undefined;
+	}
+}
 
 export class ExtractHighlightsModal extends Modal {
 	goButtonEl!: HTMLButtonElement;
 	inputFileEl!: HTMLInputElement;
+	previewEl!: HTMLDivElement;
+	progressEl!: HTMLDivElement;
+	// Created on the first progress of a run, so the Cancel button keeps its
+	// state while the progress is updated
+	private progressTextEl: HTMLDivElement | undefined;
+	private progressBarEl: HTMLProgressElement | undefined;
 
-	settings: KoboHighlightsImporterSettings;
-
-	fileBuffer: ArrayBuffer | null | undefined;
+	plugin: KoboHighlightsImporter;
+	importer: ImportService;
 
 	nrOfBooksExtracted: number;
+	fullReimport: boolean;
+	dryRun: boolean;
+	fetchDefinitionsInDryRun = false;
+	selectedBooks = new Set<string>();
 
-	constructor(app: App, settings: KoboHighlightsImporterSettings) {
+	constructor(app: App, plugin: KoboHighlightsImporter, dryRun = false) {
 		super(app);
-		this.settings = settings;
+		this.plugin = plugin;
+		this.importer = new ImportService(app, plugin);
 		this.nrOfBooksExtracted = 0;
+		this.fullReimport = !plugin.settings.incrementalImport;
+		this.dryRun = dryRun;
+		this.importer.onDefinitionProgress = (bookTitle, done, total) =>
+			this.showProgress(bookTitle, done, total);
 	}
 
-	private async fetchHighlights() {
-		if (!this.fileBuffer) {
-			throw new Error("No sqlite DB file selected...");
-		}
-
-		const SQLEngine = await SqlJs({
-			wasmBinary: binary.buffer,
-		});
-
-		const db = new SQLEngine.Database(new Uint8Array(this.fileBuffer));
-
-		const service: HighlightService = new HighlightService(
-			new Repository(db),
+	/**
+	 * Reads the database and shows the book preview. Also used to open the
+	 * modal on a database found without going through the file picker.
+	 */
+	async loadFile(fileBuffer: ArrayBuffer, databasePath?: string) {
+		await this.importer.load(fileBuffer, databasePath);
+		this.selectedBooks = this.importer.getDefaultSelection(
+			this.fullReimport,
 		);
+		this.renderPreview();
+	}
 
-		const content = service.convertToMap(
-			await service.getAllHighlight(this.settings.sortByChapterProgress),
+	private renderPreview() {
+		const { previewEl } = this;
+		previewEl.empty();
+
+		const previews = Array.from(this.importer.previews.values()).sort((a, b) =>
+			a.title.localeCompare(b.title),
 		);
+		const count = (status: BookStatus) =>
+			previews.filter((p) => p.status == status).length;
 
-		const allBooksContent = new Map<string, Map<string, Bookmark[]>>();
+		previewEl.createEl("h3", { text: "Books" });
+		previewEl.createEl("p", {
+			text: `${count("new")} new, ${count("changed")} changed, ${count("unchanged")} unchanged`,
+		});
 
-		// Add all books with highlights
-		for (const [bookTitle, chapters] of content) {
-			allBooksContent.set(bookTitle, chapters);
+		new Setting(previewEl)
+			.setName("Full re-import")
+			.setDesc("Select every book, including unchanged ones")
+			.addToggle((cb) => {
+				cb.setValue(this.fullReimport).onChange((toggle) => {
+					this.fullReimport = toggle;
+					this.selectedBooks = this.importer.getDefaultSelection(
+						this.fullReimport,
+					);
+					this.renderPreview();
+				});
+			});
+
+		new Setting(previewEl)
+			.setName("Dry run")
+			.setDesc("Show the changes each note would get without writing anything")
+			.addToggle((cb) => {
+				cb.setValue(this.dryRun).onChange((toggle) => {
+					this.dryRun = toggle;
+					this.renderPreview();
+				});
+			});
+
+		if (this.dryRun) {
+			new Setting(previewEl)
+				.setName("Fetch definitions")
+				.setDesc("Ask the model for missing definitions during the dry run")
+				.addToggle((cb) => {
+					cb.setValue(this.fetchDefinitionsInDryRun).onChange(
+						(toggle) => {
+							this.fetchDefinitionsInDryRun = toggle;
+						},
+					);
+				});
 		}
 
-		if (this.settings.importAllBooks) {
-			const allBooks = await service.getAllBooks();
-
-			for (const bookTitle of allBooks.keys()) {
-				if (!allBooksContent.has(bookTitle)) {
-					allBooksContent.set(
-						bookTitle,
-						service.createEmptyContentMap(),
-					);
+		const listEl = previewEl.createDiv({
+			cls: "kobo-highlights-importer-preview",
+		});
+		for (const preview of previews) {
+			const rowEl = listEl.createEl("label", {
+				cls: `kobo-highlights-importer-preview-row is-${preview.status}`,
+			});
+			const checkboxEl = rowEl.createEl("input", { type: "checkbox" });
+			checkboxEl.checked = this.selectedBooks.has(preview.title);
+			checkboxEl.addEventListener("change", () => {
+				if (checkboxEl.checked) {
+					this.selectedBooks.add(preview.title);
+				} else {
+					this.selectedBooks.delete(preview.title);
 				}
-			}
+				this.updateGoButton();
+			});
+
+			rowEl.createSpan({ text: preview.title });
+			rowEl.createSpan({
+				cls: "kobo-highlights-importer-preview-info",
+				text: `${preview.highlightCount} highlight${preview.highlightCount !== 1 ? "s" : ""}, ${preview.status}`,
+			});
 		}
 
-		this.nrOfBooksExtracted = allBooksContent.size;
-		await this.writeBooks(service, allBooksContent);
+		this.updateGoButton();
 	}
 
-	private async writeBooks(
-		service: HighlightService,
-		content: Map<string, Map<string, Bookmark[]>>,
-	) {
-		console.log(`\n========== PROCESSING ${content.size} BOOK(S) SEPARATELY ==========`);
-		for (const [bookTitle] of content) {
-			console.log(`📚 Book: ${bookTitle}`);
-		}
-		console.log(`==================================================\n`);
-
-		const template = await getTemplateContents(
-			this.app,
-			this.settings.templatePath,
+	private updateGoButton() {
+		const ready = this.selectedBooks.size > 0;
+		this.goButtonEl.disabled = !ready;
+		this.goButtonEl.textContent = `${this.dryRun ? "Dry run" : "Extract"} ${this.selectedBooks.size} book${this.selectedBooks.size !== 1 ? "s" : ""}`;
+		this.goButtonEl.setAttr(
+			"style",
+			ready
+				? "background-color: green; color: black"
+				: "background-color: red; color: white",
 		);
-
-		// Initialize Ollama service
-		const ollamaService = new OllamaService(this.settings.ollamaModel);
-
-		// Process each book individually with its own language detection
-		for (const [bookTitle, chapters] of content) {
-			console.log(`\n📖 PROCESSING BOOK: "${bookTitle}"`);
-			
-			const sanitizedBookName = sanitize(bookTitle);
-			const fileName = normalizePath(
-				`${this.settings.storageFolder}/${sanitizedBookName}.md`,
-			);
-
-			// Collect all highlights for THIS book, split by type
-			const bookVocabularyWords: string[] = [];
-			let totalHighlights = 0;
-			let quoteCount = 0;
-			for (const [chapterName, bookmarks] of chapters) {
-				console.log(`   📂 Chapter "${chapterName.trim()}": ${bookmarks.length} highlight(s)`);
-				for (const bookmark of bookmarks) {
-					totalHighlights++;
-					if (bookmark.color == 1) {
-						bookVocabularyWords.push(bookmark.text);
-					} else {
-						quoteCount++;
-					}
-				}
-			}
-			console.log(`   📝 Total highlights from DB: ${totalHighlights} (${bookVocabularyWords.length} vocab, ${quoteCount} quotes)`);
-			if (bookVocabularyWords.length > 0) {
-				console.log(`   Vocabulary: ${bookVocabularyWords.join(', ')}`);
-			}
-
-			// Parse existing definitions from THIS book's markdown file
-			const existingDefinitions = new Map<string, string>();
-			const fileExists = await this.app.vault.adapter.exists(fileName);
-			if (fileExists) {
-				const existingContent = await this.app.vault.adapter.read(fileName);
-				this.parseExistingDefinitions(existingContent, existingDefinitions);
-				console.log(`   ♻️  Reusing ${existingDefinitions.size} existing definitions`);
-			}
-
-			// Filter out words that already have definitions
-			const wordsNeedingDefinitions = bookVocabularyWords.filter(
-				word => !existingDefinitions.has(word)
-			);
-
-			// Detect language for THIS book using ALL vocabulary words (not just new ones),
-			// so language is correctly detected even when all definitions are cached.
-			let detectedLanguage = "en";
-			if (bookVocabularyWords.length > 0) {
-				console.log(`   🔎 Detecting language from ${bookVocabularyWords.length} vocabulary words...`);
-				detectedLanguage = OllamaService.detectLanguage(bookVocabularyWords);
-				const langName = detectedLanguage === "fr" ? "French" : "English";
-				console.log(`   🎯 DETECTED: ${langName.toUpperCase()}`);
-			}
-			if (wordsNeedingDefinitions.length > 0) {
-				console.log(`   🆕 New words needing definitions: ${wordsNeedingDefinitions.join(', ')}`);
-			} else {
-				console.log(`   ✅ All ${bookVocabularyWords.length} definitions already cached`);
-			}
-
-			// Fetch definitions only for new words in THIS book
-			let definitions = new Map<string, string>(existingDefinitions);
-			if (this.settings.ollamaModel && wordsNeedingDefinitions.length > 0) {
-				const langName = detectedLanguage === "fr" ? "French" : "English";
-				console.log(`   🤖 Fetching ${wordsNeedingDefinitions.length} ${langName} definitions...`);
-				new Notice(
-					`Fetching ${langName} definitions for "${bookTitle}" (${wordsNeedingDefinitions.length} words)...`,
-				);
-				const newDefinitions = await ollamaService.getVocabularyDefinitions(
-					wordsNeedingDefinitions,
-					detectedLanguage,
-				);
-				// Merge new definitions with existing ones
-				for (const [word, definition] of newDefinitions) {
-					definitions.set(word, definition);
-				}
-			}
-
-			const details = await service.getBookDetailsFromBookTitle(bookTitle);
-
-			// Always (re)generate the file from the template.
-			// `chapters` contains ALL highlights from the database and
-			// `definitions` contains both previously-cached and newly-fetched
-			// definitions, so the output is always complete and consistent.
-			console.log(`   💾 ${fileExists ? 'Regenerating' : 'Creating'} file with language: ${detectedLanguage}`);
-			const generatedContent = applyTemplateTransformations(template, chapters, details, definitions, detectedLanguage);
-			console.log(`   📋 Frontmatter check: ${generatedContent.substring(0, 100)}`);
-
-			let finalContent = generatedContent;
-			if (fileExists) {
-				const existingContent = await this.app.vault.adapter.read(fileName);
-				const userContent = this.extractUserContent(existingContent);
-				if (userContent.size > 0 || userContent.has('__trailing__')) {
-					finalContent = this.reinsertUserContent(generatedContent, userContent);
-					const preservedChapters = [...userContent.keys()].filter(k => k !== '__trailing__');
-					console.log(`   📌 Preserved user content in ${preservedChapters.length} chapter(s)`);
-				}
-			}
-
-			await this.app.vault.adapter.write(
-				fileName,
-				finalContent,
-			);
-			console.log(`   ✅ Completed: ${fileName}`);
-		}
-	}
-
-	private parseExistingDefinitions(
-		content: string,
-		definitions: Map<string, string>
-	): void {
-		// Match vocabulary format: - word ::: definition
-		const vocabularyRegex = /^-\s+(.+?)\s+:::\s+(.+)$/gm;
-		let match;
-		
-		while ((match = vocabularyRegex.exec(content)) !== null) {
-			const word = match[1].trim();
-			const definition = match[2].trim();
-			definitions.set(word, definition);
-		}
 	}
 
-	/**
-	 * Extracts user-added content from an existing markdown file.
-	 * User content is anything between `%% kobo-highlights-end %%` and the next
-	 * `## ` chapter header (or end of file). Returns a Map keyed by chapter name.
-	 * Trailing content after the last chapter is stored under '__trailing__'.
-	 */
-	private extractUserContent(existingContent: string): Map<string, string> {
-		const userContent = new Map<string, string>();
-		const lines = existingContent.split('\n');
-
-		let currentChapter = '';
-		let afterAutoEnd = false;
-		let userLines: string[] = [];
-
-		for (const line of lines) {
-			// Detect chapter headers
-			if (line.match(/^##\s+/)) {
-				// Save accumulated user content for previous chapter
-				if (currentChapter && userLines.length > 0) {
-					const trimmed = userLines.join('\n').trim();
-					if (trimmed) {
-						userContent.set(currentChapter, trimmed);
-					}
-				}
-				currentChapter = line.replace(/^##\s+/, '').trim();
-				userLines = [];
-				afterAutoEnd = false;
-				continue;
-			}
-
-			// Detect end-of-auto marker
-			if (line.includes('kobo-highlights-end')) {
-				afterAutoEnd = true;
-				continue;
-			}
-
-			// Detect start-of-auto marker (stop collecting user content)
-			if (line.includes('kobo-highlights-start')) {
-				afterAutoEnd = false;
-				continue;
-			}
-
-			// Collect user content (lines after the auto end marker)
-			if (afterAutoEnd && currentChapter) {
-				userLines.push(line);
-			}
-		}
-
-		// Save last chapter's user content (or trailing content)
-		if (userLines.length > 0) {
-			const trimmed = userLines.join('\n').trim();
-			if (trimmed) {
-				if (currentChapter) {
-					userContent.set(currentChapter, trimmed);
-				} else {
-					userContent.set('__trailing__', trimmed);
-				}
-			}
+	private showProgress(bookTitle: string, done: number, total: number) {
+		const { progressEl } = this;
+		if (!this.progressTextEl || !this.progressBarEl) {
+			progressEl.empty();
+			progressEl.show();
+
+			this.progressTextEl = progressEl.createDiv();
+			this.progressBarEl = progressEl.createEl("progress");
+
+			const cancelEl = progressEl.createEl("button", { text: "Cancel" });
+			cancelEl.addEventListener("click", () => {
+				this.importer.cancel();
+				cancelEl.disabled = true;
+				cancelEl.textContent = "Cancelling...";
+			});
 		}
 
-		return userContent;
+		this.progressTextEl.textContent = `Fetching definitions for "${bookTitle}": ${done} of ${total} words`;
+		this.progressBarEl.max = total;
+		this.progressBarEl.value = done;
 	}
 
-	/**
-	 * Re-inserts preserved user content into newly generated content.
-	 * For each chapter, user content is placed after `%% kobo-highlights-end %%`.
-	 */
-	private reinsertUserContent(
-		generatedContent: string,
-		userContent: Map<string, string>,
-	): string {
-		const lines = generatedContent.split('\n');
-		const result: string[] = [];
-		let currentChapter = '';
-
-		for (const line of lines) {
-			if (line.match(/^##\s+/)) {
-				currentChapter = line.replace(/^##\s+/, '').trim();
-			}
-
-			result.push(line);
-
-			// After each chapter's auto-end marker, insert preserved user content
-			if (line.includes('kobo-highlights-end') && currentChapter) {
-				const preserved = userContent.get(currentChapter);
-				if (preserved) {
-					result.push('');
-					result.push(preserved);
-				}
-			}
-		}
-
-		// Append trailing user content (content not belonging to any chapter)
-		const trailing = userContent.get('__trailing__');
-		if (trailing) {
-			result.push('');
-			result.push(trailing);
+	private async run(action: () => Promise<void>) {
+		this.goButtonEl.disabled = true;
+		try {
+			await action();
+		} finally {
+			this.progressEl.empty();
+			this.progressEl.hide();
+			this.progressTextEl = undefined;
+			this.progressBarEl = undefined;
+			this.updateGoButton();
 		}
-
-		return result.join('\n');
 	}
 
-
-
 	onOpen() {
 		const { contentEl } = this;
 
@@ -318,10 +193,22 @@ export class ExtractHighlightsModal extends Modal {
 		this.goButtonEl.textContent = "Extract";
 		this.goButtonEl.disabled = true;
 		this.goButtonEl.setAttr("style", "background-color: red; color: white");
-		this.goButtonEl.addEventListener("click", async () => {
+		this.goButtonEl.addEventListener("click", () => this.run(async () => {
 			try {
+				if (this.dryRun) {
+					new Notice("Rendering highlights...");
+					const changes = await this.importer.dryRunBooks(
+						this.selectedBooks,
+						this.fetchDefinitionsInDryRun,
+					);
+					new DryRunModal(this.app, changes).open();
+					return;
+				}
+
 				new Notice("Extracting highlights...");
-				await this.fetchHighlights();
+				this.nrOfBooksExtracted = await this.importer.importBooks(
+					this.selectedBooks,
+				);
 				new Notice(
 					`Extracted highlights from ${this.nrOfBooksExtracted} book${this.nrOfBooksExtracted !== 1 ? 's' : ''}!`,
 				);
@@ -332,26 +219,39 @@ export class ExtractHighlightsModal extends Modal {
 					`Failed to extract highlights: ${error instanceof Error ? error.message : 'Unknown error'}`,
 				);
 			}
-		});
+		}));
 
 		this.inputFileEl = contentEl.createEl("input");
 		this.inputFileEl.type = "file";
 		this.inputFileEl.accept = ".sqlite";
-		this.inputFileEl.addEventListener("change", (ev) => {
+		this.inputFileEl.addEventListener("change", async (ev) => {
 			const file = (ev.target as HTMLInputElement)?.files?.[0];
 			if (!file) {
 				return;
 			}
 
+			let filePath = getPathForFile(file);
+			if (filePath) {
+				this.plugin.settings.lastDatabasePath = filePath;
+				await this.plugin.saveSettings();
+			} else {
+				filePath = this.plugin.settings.databasePath || undefined;
+			}
+
 			const reader = new FileReader();
-			reader.onload = () => {
-				this.fileBuffer = reader.result as ArrayBuffer;
-				this.goButtonEl.disabled = false;
-				this.goButtonEl.setAttr(
-					"style",
-					"background-color: green; color: black",
-				);
-				new Notice("Ready to extract!");
+			reader.onload = async () => {
+				try {
+					await this.loadFile(
+						reader.result as ArrayBuffer,
+						filePath,
+					);
+					new Notice("Ready to extract!");
+				} catch (error) {
+					console.error("Error reading highlights:", error);
+					new Notice(
+						`Failed to read highlights: ${error instanceof Error ? error.message : 'Unknown error'}`,
+					);
+				}
 			};
 
 			reader.onerror = () => {
@@ -372,10 +272,18 @@ export class ExtractHighlightsModal extends Modal {
 		contentEl.appendChild(heading);
 		contentEl.appendChild(description);
 		contentEl.appendChild(this.inputFileEl);
+
+		this.previewEl = contentEl.createDiv();
+		this.progressEl = contentEl.createDiv({
+			cls: "kobo-highlights-importer-progress",
+		});
+		this.progressEl.hide();
 		contentEl.appendChild(this.goButtonEl);
 	}
 
 	onClose() {
+		// Closing the window stops the definitions still being fetched
+		this.importer.cancel();
 		const { contentEl } = this;
 		contentEl.empty();
 	}
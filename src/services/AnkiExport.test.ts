@@ -0,0 +1,147 @@
+import * as chai from "chai";
+import { Bookmark } from "../database/interfaces";
+import { DEFAULT_HIGHLIGHT_TYPES } from "../template/highlightTypes";
+import {
+	createAnkiCards,
+	formatAnkiFile,
+	getAnkiGuid,
+	getImportedChapters,
+} from "./AnkiExport";
+
+describe("AnkiExport", async function () {
+	const dateCreated = new Date("2023-01-01T12:00:00Z");
+	const chapters = new Map<string, Bookmark[]>([
+		[
+			"Chapter 1 ",
+			[
+				{
+					bookmarkId: "word-id",
+					text: "bank",
+					contentId: "c1",
+					dateCreated,
+					color: 1,
+					context: "She sat on the <bank>.",
+				},
+				{
+					bookmarkId: "undefined-id",
+					text: "river",
+					contentId: "c1",
+					dateCreated,
+					color: 1,
+				},
+				{
+					bookmarkId: "quote-id",
+					text: "It was quiet.",
+					contentId: "c1",
+					dateCreated,
+					color: 0,
+					note: "Nice",
+				},
+			],
+		],
+	]);
+	const definitions = new Map([
+		["bank", { definition: "Side of a river", pos: "noun", translation: "rive" }],
+		// Not fetched yet
+		["river", { definition: "..." }],
+	]);
+
+	it("createAnkiCards exports defined vocabulary", async function () {
+		const cards = createAnkiCards(
+			"Book",
+			chapters,
+			definitions,
+			DEFAULT_HIGHLIGHT_TYPES,
+			{ deck: "Kobo", includeQuotes: false },
+		);
+
+		chai.expect(cards).to.deep.equal([
+			{
+				guid: "kobo-word-id",
+				front: "<b>bank</b><br><br><i>She sat on the &lt;bank&gt;.</i>",
+				back: "<i>noun</i><br>Side of a river<br>→ <b>rive</b><br><small>Book — Chapter 1</small>",
+				deck: "Kobo::Book",
+				tags: ["kobo", "vocabulary"],
+			},
+		]);
+	});
+
+	it("createAnkiCards exports quotes when asked", async function () {
+		const cards = createAnkiCards(
+			"Book",
+			chapters,
+			definitions,
+			DEFAULT_HIGHLIGHT_TYPES,
+			{ deck: "Kobo", includeQuotes: true },
+		);
+
+		chai.expect(cards.map((c) => c.guid)).to.deep.equal([
+			getAnkiGuid("word-id"),
+			getAnkiGuid("quote-id"),
+		]);
+		chai.expect(cards[1].back).equal(
+			"Nice<br><br><small>Book — Chapter 1</small>",
+		);
+		chai.expect(cards[1].tags).to.deep.equal(["kobo", "quote"]);
+	});
+
+	it("formatAnkiFile", async function () {
+		const file = formatAnkiFile([
+			{
+				guid: "kobo-1",
+				front: "a\tb",
+				back: "line 1\nline 2",
+				deck: "Kobo::Book",
+				tags: ["kobo", "quote"],
+			},
+		]);
+
+		chai.expect(file.split("\n")).to.deep.equal([
+			"#separator:tab",
+			"#html:true",
+			"#notetype:Basic",
+			"#guid column:1",
+			"#deck column:4",
+			"#tags column:5",
+			"kobo-1\ta b\tline 1<br>line 2\tKobo::Book\tkobo quote",
+			"",
+		]);
+	});
+
+	it("getImportedChapters reads the import history", async function () {
+		const imported = {
+			bookmarkId: "word-id",
+			contentId: "c1",
+			chapter: "Chapter 1 ",
+			text: "bank",
+			color: 1,
+			dateCreated: dateCreated.toISOString(),
+			context: "She sat on the <bank>.",
+		};
+		const books = getImportedChapters({
+			device1: { books: { Book: { bookmarks: [imported] } } },
+			device2: {
+				books: {
+					Book: {
+						bookmarks: [
+							imported,
+							{ ...imported, bookmarkId: "deleted", deletedOnDevice: true },
+						],
+					},
+				},
+			},
+		});
+
+		chai.expect(Array.from(books.keys())).to.deep.equal(["Book"]);
+		chai.expect(books.get("Book")?.get("Chapter 1 ")).to.deep.equal([
+			{
+				bookmarkId: "word-id",
+				contentId: "c1",
+				text: "bank",
+				color: 1,
+				dateCreated,
+				context: "She sat on the <bank>.",
+			},
+		]);
+	});
+});
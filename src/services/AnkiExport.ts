@@ -0,0 +1,172 @@
+import {
+	Bookmark,
+	Definition,
+	HighlightType,
+	ImportWatermark,
+} from "../database/interfaces";
+import { getHighlightType } from "../template/highlightTypes";
+import { isPlaceholderDefinition } from "../template/template";
+
+export interface AnkiCard {
+	// Derived from the BookmarkID, so importing again updates the note
+	guid: string;
+	front: string;
+	back: string;
+	deck: string;
+	tags: string[];
+}
+
+export function getAnkiGuid(bookmarkId: string): string {
+	return `kobo-${bookmarkId}`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// Fields are HTML, so tabs and line breaks cannot break the columns
+function toField(html: string): string {
+	return html.replace(/\t/g, " ").replace(/\r?\n/g, "<br>");
+}
+
+function toTag(text: string): string {
+	return text.trim().replace(/\s+/g, "_");
+}
+
+/**
+ * Highlights of every imported book by chapter, from the import watermarks
+ * of all devices, so that exporting does not need the Kobo. Highlights
+ * deleted on the device are left out.
+ */
+export function getImportedChapters(
+	watermarks: Record<string, ImportWatermark>,
+): Map<string, Map<string, Bookmark[]>> {
+	const books = new Map<string, Map<string, Bookmark[]>>();
+	const seen = new Set<string>();
+
+	for (const watermark of Object.values(watermarks)) {
+		for (const [bookTitle, book] of Object.entries(watermark.books)) {
+			const chapters = books.get(bookTitle) ?? new Map<string, Bookmark[]>();
+			for (const { chapter, dateCreated, ...bookmark } of book.bookmarks) {
+				if (seen.has(bookmark.bookmarkId) || bookmark.deletedOnDevice) {
+					continue;
+				}
+
+				seen.add(bookmark.bookmarkId);
+				chapters.set(chapter, [
+					...(chapters.get(chapter) ?? []),
+					{ ...bookmark, dateCreated: new Date(dateCreated) },
+				]);
+			}
+			books.set(bookTitle, chapters);
+		}
+	}
+
+	return books;
+}
+
+/**
+ * Cards for the vocabulary of a book, and its quotes when asked: the word
+ * and its context sentence on the front, the definition and where it was
+ * read on the back. Words without a definition yet are left out.
+ */
+export function createAnkiCards(
+	bookTitle: string,
+	chapters: Map<string, Bookmark[]>,
+	definitions: Map<string, Definition>,
+	highlightTypes: HighlightType[],
+	options: { deck: string; includeQuotes: boolean },
+): AnkiCard[] {
+	const cards: AnkiCard[] = [];
+	const deck = `${options.deck}::${bookTitle.replace(/::/g, ":")}`;
+
+	for (const [chapterName, bookmarks] of chapters) {
+		const source = `<small>${escapeHtml(bookTitle)} — ${escapeHtml(chapterName.trim())}</small>`;
+
+		for (const bookmark of bookmarks) {
+			if (bookmark.kind && bookmark.kind != "highlight") {
+				continue;
+			}
+
+			const type = getHighlightType(bookmark.color, highlightTypes);
+			const tags = ["kobo", ...type.tags.map(toTag)];
+
+			if (type.vocabulary) {
+				const definition = definitions.get(bookmark.text);
+				if (!definition || isPlaceholderDefinition(definition)) {
+					continue;
+				}
+
+				const back = [
+					definition.pos ? `<i>${escapeHtml(definition.pos)}</i>` : "",
+					escapeHtml(definition.definition),
+					definition.translation
+						? `→ <b>${escapeHtml(definition.translation)}</b>`
+						: "",
+					definition.example
+						? `<i>${escapeHtml(definition.example)}</i>`
+						: "",
+					source,
+				];
+				cards.push({
+					guid: getAnkiGuid(bookmark.bookmarkId),
+					front: [
+						`<b>${escapeHtml(bookmark.text)}</b>`,
+						bookmark.context ? `<i>${escapeHtml(bookmark.context)}</i>` : "",
+					]
+						.filter((part) => part)
+						.join("<br><br>"),
+					back: back.filter((part) => part).join("<br>"),
+					deck,
+					tags: [...tags, "vocabulary"],
+				});
+			} else if (options.includeQuotes) {
+				cards.push({
+					guid: getAnkiGuid(bookmark.bookmarkId),
+					front: escapeHtml(bookmark.text),
+					back: [
+						bookmark.note ? escapeHtml(bookmark.note) : "",
+						source,
+					]
+						.filter((part) => part)
+						.join("<br><br>"),
+					deck,
+					tags: [...tags, "quote"],
+				});
+			}
+		}
+	}
+
+	return cards;
+}
+
+/**
+ * Tab separated file for File > Import in Anki (2.1.55 or later), on the
+ * Basic note type. The GUID column makes Anki update the notes it already
+ * has instead of adding duplicates.
+ */
+export function formatAnkiFile(cards: AnkiCard[]): string {
+	const header = [
+		"#separator:tab",
+		"#html:true",
+		"#notetype:Basic",
+		"#guid column:1",
+		"#deck column:4",
+		"#tags column:5",
+	];
+	const rows = cards.map((card) =>
+		[
+			card.guid,
+			toField(card.front),
+			toField(card.back),
+			toField(card.deck),
+			card.tags.join(" "),
+		].join("\t"),
+	);
+
+	return [...header, ...rows].join("\n") + "\n";
+}
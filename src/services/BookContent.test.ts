@@ -0,0 +1,156 @@
+import * as chai from "chai";
+import path from "path";
+import { deflateRawSync } from "zlib";
+import { Bookmark } from "../database/interfaces";
+import {
+	BookContentReader,
+	findContextInHighlights,
+	findKoboSpanText,
+	findSentence,
+	getBookFilePath,
+	getChapterFileName,
+	openZip,
+} from "./BookContent";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+// Builds a zip with deflated entries, as found in epubs
+function createZip(files: Record<string, string>): Uint8Array {
+	const encoder = new TextEncoder();
+	const local: number[] = [];
+	const central: number[] = [];
+
+	const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+	const u32 = (n: number) => [...u16(n & 0xffff), ...u16(n >>> 16)];
+
+	for (const [name, content] of Object.entries(files)) {
+		const nameBytes = Array.from(encoder.encode(name));
+		const data = Array.from(deflateRawSync(encoder.encode(content)));
+		const size = encoder.encode(content).length;
+		const offset = local.length;
+
+		local.push(
+			...u32(0x04034b50), ...u16(20), ...u16(0), ...u16(8),
+			...u32(0), ...u32(0), ...u32(data.length), ...u32(size),
+			...u16(nameBytes.length), ...u16(0), ...nameBytes, ...data,
+		);
+		central.push(
+			...u32(0x02014b50), ...u16(20), ...u16(20), ...u16(0), ...u16(8),
+			...u32(0), ...u32(0), ...u32(data.length), ...u32(size),
+			...u16(nameBytes.length), ...u16(0), ...u16(0), ...u16(0),
+			...u16(0), ...u32(0), ...u32(offset), ...nameBytes,
+		);
+	}
+
+	const count = Object.keys(files).length;
+	return new Uint8Array([
+		...local,
+		...central,
+		...u32(0x06054b50), ...u16(0), ...u16(0), ...u16(count), ...u16(count),
+		...u32(central.length), ...u32(local.length), ...u16(0),
+	]);
+}
+
+const chapter = `<html><body>
+<p><span class="koboSpan" id="kobo.1.1">The river was calm.</span> <span class="koboSpan" id="kobo.1.2">She sat on the <b>bank</b> and waited.</span></p>
+<p><span class="koboSpan" id="kobo.2.1">Later she went to the bank to withdraw money.</span></p>
+</body></html>`;
+
+function bookmark(overrides: Partial<Bookmark>): Bookmark {
+	return {
+		bookmarkId: "1",
+		text: "bank",
+		contentId: "file:///mnt/onboard/Books/novel.kepub.epub!OEBPS!Text/ch1.xhtml",
+		dateCreated: new Date("2023-01-01T12:00:00Z"),
+		volumeId: "file:///mnt/onboard/Books/novel.kepub.epub",
+		...overrides,
+	};
+}
+
+describe("BookContent", async function () {
+	it("openZip", async function () {
+		const zip = openZip(createZip({ "a.txt": "hello", "dir/b.txt": "world" }));
+
+		chai.expect(zip.names).to.deep.equal(["a.txt", "dir/b.txt"]);
+		chai.expect(new TextDecoder().decode(zip.read("dir/b.txt"))).equal("world");
+		chai.expect(zip.read("missing")).to.be.undefined;
+	});
+
+	it("getBookFilePath", async function () {
+		chai.expect(
+			getBookFilePath("/media/KOBOeReader", "file:///mnt/onboard/Books/novel.epub"),
+		).equal(path.join("/media/KOBOeReader", "Books", "novel.epub"));
+		chai.expect(getBookFilePath("/media/KOBOeReader", "0b0c1d2e-uuid")).to.be
+			.undefined;
+	});
+
+	it("getChapterFileName", async function () {
+		chai.expect(
+			getChapterFileName("file:///mnt/onboard/a.kepub.epub!OEBPS!Text/ch1.xhtml"),
+		).equal("OEBPS/Text/ch1.xhtml");
+		chai.expect(
+			getChapterFileName("file:///mnt/onboard/a.epub#(3)OEBPS/ch1.html#note"),
+		).equal("OEBPS/ch1.html");
+		chai.expect(getChapterFileName("0b0c1d2e-uuid")).to.be.undefined;
+	});
+
+	it("findKoboSpanText", async function () {
+		chai.expect(findKoboSpanText(chapter, "span#kobo\\.1\\.2")).equal(
+			"She sat on the bank and waited.",
+		);
+		chai.expect(findKoboSpanText(chapter, "/1/4/2")).to.be.undefined;
+	});
+
+	it("findSentence picks the occurrence closest to the progress", async function () {
+		const text = "The bank was steep. Nothing happened. I went to the bank.";
+
+		chai.expect(findSentence(text, "bank", 0)).equal("The bank was steep.");
+		chai.expect(findSentence(text, "bank", 0.9)).equal("I went to the bank.");
+		chai.expect(findSentence(text, "banker")).to.be.undefined;
+	});
+
+	it("BookContentReader uses the kepub span, then the chapter text", async function () {
+		const zip = createZip({ "OEBPS/Text/ch1.xhtml": chapter });
+		const reader = new BookContentReader("/media/KOBOeReader", async () =>
+			zip.slice().buffer as ArrayBuffer,
+		);
+
+		chai.expect(
+			await reader.getContext(
+				bookmark({ startContainerPath: "span#kobo\\.2\\.1" }),
+			),
+		).equal("Later she went to the bank to withdraw money.");
+		chai.expect(
+			await reader.getContext(bookmark({ chapterProgress: 0.1 })),
+		).equal("She sat on the bank and waited.");
+	});
+
+	it("BookContentReader only keeps the current book", async function () {
+		const zip = createZip({ "OEBPS/Text/ch1.xhtml": chapter });
+		const read: string[] = [];
+		const reader = new BookContentReader("/media/KOBOeReader", async (path) => {
+			read.push(path);
+			return zip.slice().buffer as ArrayBuffer;
+		});
+
+		await reader.getContext(bookmark({ chapterProgress: 0.1 }));
+		await reader.getContext(bookmark({ chapterProgress: 0.9 }));
+		await reader.getContext(bookmark({ volumeId: "file:///mnt/onboard/other.epub" }));
+		await reader.getContext(bookmark({ chapterProgress: 0.1 }));
+
+		chai.expect(read).to.have.length(3);
+	});
+
+	it("findContextInHighlights", async function () {
+		const word = bookmark({ bookmarkId: "word" });
+		const quote = bookmark({
+			bookmarkId: "quote",
+			text: "It was quiet. She sat on the bank and waited.",
+		});
+
+		chai.expect(findContextInHighlights(word, [word, quote])).equal(
+			"She sat on the bank and waited.",
+		);
+		chai.expect(findContextInHighlights(word, [word])).to.be.undefined;
+	});
+});
@@ -0,0 +1,291 @@
+import path from "path";
+import { inflateRawSync } from "zlib";
+import { Bookmark } from "../database/interfaces";
+import { normalizeWord } from "./DefinitionProvider";
+
+export interface ZipArchive {
+	names: string[];
+	read(_name: string): Uint8Array | undefined;
+}
+
+/**
+ * Minimal reader for the zip container of an epub: lists the entries from
+ * the central directory and inflates them on demand.
+ */
+export function openZip(data: Uint8Array): ZipArchive {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const decoder = new TextDecoder("utf-8");
+
+	// The end of central directory record is followed by at most 64KB of comment
+	let end = -1;
+	for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+		if (view.getUint32(i, true) == 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw new Error("Not a zip file");
+	}
+
+	const entries = new Map<
+		string,
+		{ method: number; size: number; offset: number }
+	>();
+	let position = view.getUint32(end + 16, true);
+	const count = view.getUint16(end + 10, true);
+	for (let i = 0; i < count; i++) {
+		if (view.getUint32(position, true) != 0x02014b50) {
+			break;
+		}
+
+		const nameLength = view.getUint16(position + 28, true);
+		const name = decoder.decode(
+			data.subarray(position + 46, position + 46 + nameLength),
+		);
+		entries.set(name, {
+			method: view.getUint16(position + 10, true),
+			size: view.getUint32(position + 20, true),
+			offset: view.getUint32(position + 42, true),
+		});
+
+		position +=
+			46 +
+			nameLength +
+			view.getUint16(position + 30, true) +
+			view.getUint16(position + 32, true);
+	}
+
+	return {
+		names: Array.from(entries.keys()),
+		read(name: string) {
+			const entry = entries.get(name);
+			if (!entry) {
+				return undefined;
+			}
+
+			const start =
+				entry.offset +
+				30 +
+				view.getUint16(entry.offset + 26, true) +
+				view.getUint16(entry.offset + 28, true);
+			const compressed = data.subarray(start, start + entry.size);
+
+			return entry.method == 8
+				? new Uint8Array(inflateRawSync(compressed))
+				: compressed;
+		},
+	};
+}
+
+/**
+ * Path of a sideloaded book on the mounted device. Store-bought books have
+ * an ID instead of a path and are encrypted, so they have no file here.
+ */
+export function getBookFilePath(
+	deviceRoot: string,
+	volumeId: string,
+): string | undefined {
+	const match = /^file:\/\/\/mnt\/onboard\/(.+)$/.exec(volumeId);
+
+	return match ? path.join(deviceRoot, ...match[1].split("/")) : undefined;
+}
+
+/**
+ * File of the chapter inside the epub, from the ContentID of a highlight:
+ * `<book>!OEBPS!Text/ch1.xhtml` for kepubs, `<book>#(3)OEBPS/ch1.html` for
+ * plain epubs.
+ */
+export function getChapterFileName(contentId: string): string | undefined {
+	const kepub = /\.kepub\.epub!+(.+)$/.exec(contentId);
+	if (kepub) {
+		return kepub[1].replace(/!+/g, "/");
+	}
+
+	const epub = /\.epub#\(\d+\)(.+)$/.exec(contentId);
+
+	return epub ? epub[1].replace(/#.*$/, "") : undefined;
+}
+
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(+code))
+		.replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+			String.fromCodePoint(parseInt(code, 16)),
+		)
+		.replace(/&amp;/g, "&")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Text of the kepub sentence span a highlight starts in. Kobo wraps every
+ * sentence in `<span id="kobo.<paragraph>.<sentence>">` and stores its
+ * selector, e.g. `span#kobo\.5\.1`, as the StartContainerPath.
+ */
+export function findKoboSpanText(
+	xhtml: string,
+	startContainerPath: string,
+): string | undefined {
+	const match = /kobo\\?\.(\d+)\\?\.(\d+)/.exec(startContainerPath);
+	if (!match) {
+		return undefined;
+	}
+
+	const span = new RegExp(
+		`id=["']kobo\\.${match[1]}\\.${match[2]}["'][^>]*>([\\s\\S]*?)</span>`,
+	).exec(xhtml);
+
+	return span ? htmlToText(span[1]) || undefined : undefined;
+}
+
+function containsWord(sentence: string, word: string): boolean {
+	const escaped = normalizeWord(word).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+	return new RegExp(`(^|[^\\p{L}])${escaped}($|[^\\p{L}])`, "iu").test(
+		sentence,
+	);
+}
+
+/**
+ * The sentence of `text` containing `word`. When the word appears several
+ * times, the occurrence closest to `progress` (0 to 1) in the text wins.
+ */
+export function findSentence(
+	text: string,
+	word: string,
+	progress?: number,
+): string | undefined {
+	const sentences = text.match(/[^.!?…]+[.!?…]*["'»”)]*/g) ?? [];
+
+	let best: string | undefined;
+	let bestDistance = Infinity;
+	let offset = 0;
+	for (const sentence of sentences) {
+		if (containsWord(sentence, word)) {
+			const distance =
+				progress == null
+					? offset
+					: Math.abs(offset / Math.max(1, text.length) - progress);
+			if (distance < bestDistance) {
+				best = sentence.trim();
+				bestDistance = distance;
+			}
+		}
+		offset += sentence.length;
+	}
+
+	return best;
+}
+
+/**
+ * Finds the sentence a vocabulary highlight was taken from, using the book
+ * file on the device when it is a sideloaded epub.
+ */
+export class BookContentReader {
+	private deviceRoot: string;
+	private readFile: (_path: string) => Promise<ArrayBuffer>;
+	// Only the book being imported is kept: epubs can be large, and the
+	// highlights are read one book at a time
+	private archive:
+		| { volumeId: string; archive: Promise<ZipArchive | undefined> }
+		| undefined;
+
+	constructor(
+		deviceRoot: string,
+		readFile: (_path: string) => Promise<ArrayBuffer>,
+	) {
+		this.deviceRoot = deviceRoot;
+		this.readFile = readFile;
+	}
+
+	async getContext(bookmark: Bookmark): Promise<string | undefined> {
+		if (!bookmark.volumeId) {
+			return undefined;
+		}
+
+		const archive = await this.getArchive(bookmark.volumeId);
+		const chapterFile = getChapterFileName(bookmark.contentId);
+		if (!archive || !chapterFile) {
+			return undefined;
+		}
+
+		const name =
+			archive.names.find((n) => n == chapterFile) ??
+			archive.names.find((n) => n.endsWith(`/${chapterFile}`));
+		const data = name ? archive.read(name) : undefined;
+		if (!data) {
+			return undefined;
+		}
+
+		const xhtml = new TextDecoder("utf-8").decode(data);
+		const span = bookmark.startContainerPath
+			? findKoboSpanText(xhtml, bookmark.startContainerPath)
+			: undefined;
+		if (span && containsWord(span, bookmark.text)) {
+			return span;
+		}
+
+		return findSentence(
+			htmlToText(xhtml),
+			bookmark.text,
+			bookmark.chapterProgress,
+		);
+	}
+
+	private getArchive(volumeId: string): Promise<ZipArchive | undefined> {
+		if (this.archive?.volumeId != volumeId) {
+			this.archive = { volumeId, archive: this.openArchive(volumeId) };
+		}
+
+		return this.archive.archive;
+	}
+
+	private async openArchive(
+		volumeId: string,
+	): Promise<ZipArchive | undefined> {
+		const bookPath = getBookFilePath(this.deviceRoot, volumeId);
+		if (!bookPath) {
+			return undefined;
+		}
+
+		try {
+			return openZip(new Uint8Array(await this.readFile(bookPath)));
+		} catch (error) {
+			console.warn(`Could not read ${bookPath} for context:`, error);
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Falls back on another highlight of the same chapter that contains the
+ * word, e.g. when the whole sentence was highlighted as a quote too.
+ */
+export function findContextInHighlights(
+	bookmark: Bookmark,
+	chapterBookmarks: Bookmark[],
+): string | undefined {
+	const candidates = chapterBookmarks
+		.filter(
+			(b) =>
+				b.bookmarkId != bookmark.bookmarkId &&
+				b.text.length > bookmark.text.length &&
+				containsWord(b.text, bookmark.text),
+		)
+		.sort(
+			(a, b) =>
+				Math.abs((a.chapterProgress ?? 0) - (bookmark.chapterProgress ?? 0)) -
+				Math.abs((b.chapterProgress ?? 0) - (bookmark.chapterProgress ?? 0)),
+		);
+
+	return candidates.length > 0
+		? findSentence(candidates[0].text, bookmark.text)
+		: undefined;
+}
@@ -0,0 +1,110 @@
+import * as chai from "chai";
+import { Bookmark, ImportWatermark } from "../database/interfaces";
+import { getBlockId } from "../template/template";
+import {
+	addDailyHighlights,
+	DAILY_NOTE_HEADING,
+	groupNewHighlightsByDay,
+} from "./DailyNotes";
+
+describe("DailyNotes", async function () {
+	const bookmark = (bookmarkId: string, dateCreated: string): Bookmark => ({
+		bookmarkId,
+		text: `Text of ${bookmarkId}`,
+		contentId: "c1",
+		// Midday, so that the local day is the same in every time zone
+		dateCreated: new Date(dateCreated),
+	});
+	const highlight = (bookmarkId: string) => ({
+		bookmarkId,
+		bookTitle: "Book",
+		note: "Book",
+		text: `Text of ${bookmarkId}`,
+	});
+
+	it("groupNewHighlightsByDay", async function () {
+		const content = new Map([
+			[
+				"Book",
+				new Map([
+					[
+						"Chapter 1",
+						[
+							bookmark("old", "2024-01-01T12:00:00Z"),
+							bookmark("new1", "2024-01-02T12:00:00Z"),
+							{ ...bookmark("dogear", "2024-01-02T12:00:00Z"), kind: "dogear" as const },
+							bookmark("new2", "2024-01-03T12:00:00Z"),
+						],
+					],
+				]),
+			],
+		]);
+		const previous: ImportWatermark = {
+			books: {
+				Book: {
+					bookmarks: [
+						{
+							bookmarkId: "old",
+							contentId: "c1",
+							chapter: "Chapter 1",
+							text: "",
+							dateCreated: "2024-01-01T12:00:00Z",
+						},
+					],
+				},
+			},
+		};
+
+		const days = groupNewHighlightsByDay(content, previous, (title) => `Kobo/${title}`);
+
+		chai.expect(Array.from(days.keys())).to.deep.equal(["2024-01-02", "2024-01-03"]);
+		chai.expect(days.get("2024-01-02")).to.deep.equal([
+			{ bookmarkId: "new1", bookTitle: "Book", note: "Kobo/Book", text: "Text of new1" },
+		]);
+	});
+
+	it("groupNewHighlightsByDay on the first import", async function () {
+		const content = new Map([
+			["Book", new Map([["Chapter 1", [bookmark("a", "2024-01-02T12:00:00Z")]]])],
+		]);
+
+		chai.expect(groupNewHighlightsByDay(content, undefined, (title) => title).size).equal(0);
+		chai.expect(
+			Array.from(groupNewHighlightsByDay(content, undefined, (title) => title, true).keys()),
+		).to.deep.equal(["2024-01-02"]);
+	});
+
+	it("groupNewHighlightsByDay skips books not imported before", async function () {
+		const content = new Map([
+			["Book", new Map([["Chapter 1", [bookmark("a", "2024-01-02T12:00:00Z")]]])],
+			["Other", new Map([["Chapter 1", [bookmark("b", "2024-01-03T12:00:00Z")]]])],
+		]);
+		const previous: ImportWatermark = { books: { Book: { bookmarks: [] } } };
+
+		chai.expect(
+			Array.from(groupNewHighlightsByDay(content, previous, (title) => title).keys()),
+		).to.deep.equal(["2024-01-02"]);
+		chai.expect(
+			Array.from(groupNewHighlightsByDay(content, previous, (title) => title, true).keys()),
+		).to.deep.equal(["2024-01-02", "2024-01-03"]);
+	});
+
+	it("addDailyHighlights adds a section", async function () {
+		chai.expect(addDailyHighlights("# Monday\n\nNotes\n", [highlight("a")], false)).equal(
+			`# Monday\n\nNotes\n\n${DAILY_NOTE_HEADING}\n\n- [[Book#^${getBlockId("a")}|Book]]: Text of a\n`,
+		);
+	});
+
+	it("addDailyHighlights is idempotent", async function () {
+		const content = addDailyHighlights(
+			`${DAILY_NOTE_HEADING}\n\n- [[Book#^${getBlockId("a")}|Book]]: Text of a\n\n## Later\n`,
+			[highlight("a"), highlight("b")],
+			true,
+		);
+
+		chai.expect(content).equal(
+			`${DAILY_NOTE_HEADING}\n\n- [[Book#^${getBlockId("a")}|Book]]: Text of a\n![[Book#^${getBlockId("b")}]]\n\n## Later\n`,
+		);
+		chai.expect(addDailyHighlights(content, [highlight("a"), highlight("b")], false)).equal(content);
+	});
+});
@@ -0,0 +1,123 @@
+import { Bookmark, ImportWatermark } from "../database/interfaces";
+import { getBlockId } from "../template/template";
+import { getLocalDay } from "./ReadingStats";
+
+export const DAILY_NOTE_HEADING = "## Kobo highlights";
+
+export interface DailyHighlight {
+	bookmarkId: string;
+	bookTitle: string;
+	// Book note to link to, without its extension
+	note: string;
+	text: string;
+}
+
+/**
+ * Highlights of the imported books that the previous import did not have,
+ * by the local day they were made on. Highlights deleted on the device,
+ * dogears and markups are left out. Books the previous import did not have,
+ * e.g. on the first import of a device, add nothing unless `backfill` asks
+ * for their whole history.
+ */
+export function groupNewHighlightsByDay(
+	content: Map<string, Map<string, Bookmark[]>>,
+	previous: ImportWatermark | undefined,
+	getNoteName: (_bookTitle: string) => string,
+	backfill = false,
+): Map<string, DailyHighlight[]> {
+	const days = new Map<string, DailyHighlight[]>();
+
+	for (const [bookTitle, chapters] of content) {
+		const previousBook = previous?.books[bookTitle];
+		if (!previousBook && !backfill) {
+			continue;
+		}
+
+		const imported = new Set(
+			previousBook?.bookmarks.map((b) => b.bookmarkId),
+		);
+
+		for (const bookmark of Array.from(chapters.values()).flat()) {
+			if (
+				imported.has(bookmark.bookmarkId) ||
+				bookmark.deletedOnDevice ||
+				(bookmark.kind && bookmark.kind != "highlight")
+			) {
+				continue;
+			}
+
+			const day = getLocalDay(bookmark.dateCreated);
+			days.set(day, [
+				...(days.get(day) ?? []),
+				{
+					bookmarkId: bookmark.bookmarkId,
+					bookTitle,
+					note: getNoteName(bookTitle),
+					text: bookmark.text,
+				},
+			]);
+		}
+	}
+
+	return days;
+}
+
+function formatDailyHighlight(highlight: DailyHighlight, embed: boolean): string {
+	const link = `${highlight.note}#^${getBlockId(highlight.bookmarkId)}`;
+	if (embed) {
+		return `![[${link}]]`;
+	}
+
+	const text = highlight.text.replace(/\s+/g, " ").trim();
+	return `- [[${link}|${highlight.bookTitle}]]${text ? `: ${text}` : ""}`;
+}
+
+/**
+ * Adds the highlights to the Kobo highlights section of a daily note,
+ * creating the section at the end of the note if needed. Highlights
+ * already linked from the note are not added again, so importing twice
+ * changes nothing.
+ */
+export function addDailyHighlights(
+	content: string,
+	highlights: DailyHighlight[],
+	embed: boolean,
+): string {
+	const lines = highlights
+		.filter(
+			(highlight) =>
+				!content.includes(`#^${getBlockId(highlight.bookmarkId)}]]`) &&
+				!content.includes(`#^${getBlockId(highlight.bookmarkId)}|`),
+		)
+		.map((highlight) => formatDailyHighlight(highlight, embed));
+	if (lines.length == 0) {
+		return content;
+	}
+
+	const noteLines = content.split("\n");
+	const headingIndex = noteLines.findIndex(
+		(line) => line.trim() == DAILY_NOTE_HEADING,
+	);
+	if (headingIndex == -1) {
+		const separator = content.trim() ? "\n\n" : "";
+		return `${content.trimEnd()}${separator}${DAILY_NOTE_HEADING}\n\n${lines.join("\n")}\n`;
+	}
+
+	// The section ends at the next heading of the same or a higher level
+	let end = noteLines.findIndex(
+		(line, i) => i > headingIndex && /^#{1,2}\s/.test(line),
+	);
+	if (end == -1) {
+		end = noteLines.length;
+	}
+	while (end > headingIndex + 1 && !noteLines[end - 1].trim()) {
+		end--;
+	}
+
+	noteLines.splice(
+		end,
+		0,
+		...(end == headingIndex + 1 ? ["", ...lines] : lines),
+	);
+	return noteLines.join("\n");
+}
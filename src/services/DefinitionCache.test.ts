@@ -0,0 +1,154 @@
+import * as chai from "chai";
+import { CachedDefinition } from "../database/interfaces";
+import { CachedDefinitionProvider, DefinitionCache } from "./DefinitionCache";
+import { DefinitionProvider } from "./DefinitionProvider";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+describe("DefinitionCache", async function () {
+	function countingProvider(asked: string[][]): DefinitionProvider {
+		return {
+			name: "llm",
+			async getDefinitions(words: string[]) {
+				asked.push(words);
+				return new Map(
+					words.map((w) => [w, { definition: `definition of ${w}` }]),
+				);
+			},
+		};
+	}
+
+	it("keys entries by provider, language and normalized word", async function () {
+		const cache = new DefinitionCache({});
+		await cache.set(
+			"ollama/llama3.2",
+			"en",
+			new Map([["Bank,", { definition: "a river side" }]]),
+		);
+
+		chai.expect(cache.get("ollama/llama3.2", "en", "bank")).to.deep.equal({
+			definition: "a river side",
+		});
+		chai.expect(cache.get("ollama/llama3.2", "fr", "bank")).to.be.undefined;
+		chai.expect(cache.get("ollama/mistral", "en", "bank")).to.be.undefined;
+	});
+
+	it("CachedDefinitionProvider does not cache in dry runs", async function () {
+		const entries: Record<string, CachedDefinition> = {};
+		let saves = 0;
+		const cache = new DefinitionCache(entries, async () => {
+			saves++;
+		});
+		const asked: string[][] = [];
+		const provider = new CachedDefinitionProvider(
+			countingProvider(asked),
+			cache,
+			"openai/model",
+			true,
+		);
+
+		await provider.getDefinitions(["ephemeral"], "en");
+		await provider.getDefinitions(["ephemeral"], "en");
+
+		chai.expect(asked).to.deep.equal([["ephemeral"], ["ephemeral"]]);
+		chai.expect(entries).to.deep.equal({});
+		chai.expect(saves).equal(0);
+	});
+
+	it("CachedDefinitionProvider only fetches missing words", async function () {
+		const entries: Record<string, CachedDefinition> = {};
+		let saves = 0;
+		const cache = new DefinitionCache(entries, async () => {
+			saves++;
+		});
+		const asked: string[][] = [];
+		const provider = new CachedDefinitionProvider(
+			countingProvider(asked),
+			cache,
+			"openai/model",
+		);
+
+		await provider.getDefinitions(["ephemeral", "bank"], "en");
+		const definitions = await provider.getDefinitions(
+			["Ephemeral", "river"],
+			"en",
+		);
+
+		chai.expect(asked).to.deep.equal([["ephemeral", "bank"], ["river"]]);
+		chai.expect(Array.from(definitions)).to.deep.equal([
+			["Ephemeral", { definition: "definition of ephemeral" }],
+			["river", { definition: "definition of river" }],
+		]);
+		chai.expect(Object.keys(entries)).to.have.length(3);
+		chai.expect(saves).equal(2);
+	});
+
+	it("CachedDefinitionProvider keys definitions in another language apart", async function () {
+		const cache = new DefinitionCache({});
+		const asked: string[][] = [];
+		const provider = new CachedDefinitionProvider(
+			countingProvider(asked),
+			cache,
+			"openai/model",
+		);
+
+		await provider.getDefinitions(["Haus"], "de");
+		await provider.getDefinitions(["Haus"], "de", { definitionLanguage: "en" });
+
+		chai.expect(asked).to.deep.equal([["Haus"], ["Haus"]]);
+		chai.expect(cache.get("openai/model", "de>en", "haus")).to.deep.equal({
+			definition: "definition of Haus",
+		});
+	});
+
+	it("CachedDefinitionProvider keys definitions by context", async function () {
+		const cache = new DefinitionCache({});
+		const asked: string[][] = [];
+		const provider = new CachedDefinitionProvider(
+			countingProvider(asked),
+			cache,
+			"openai/model",
+		);
+		const river = new Map([["bank", "We sat on the bank of the river."]]);
+
+		await provider.getDefinitions(["bank"], "en", { contexts: river });
+		await provider.getDefinitions(["bank"], "en", { contexts: river });
+		await provider.getDefinitions(["bank"], "en", {
+			contexts: new Map([["bank", "She paid at the bank."]]),
+		});
+		await provider.getDefinitions(["bank"], "en");
+
+		chai.expect(asked).to.deep.equal([["bank"], ["bank"], ["bank"]]);
+		chai.expect(cache.size).equal(3);
+	});
+
+	it("get misses entries without the translation asked for", async function () {
+		const cache = new DefinitionCache({});
+		await cache.set(
+			"p",
+			"de",
+			new Map([["Haus", { definition: "Gebäude", translation: "house" }]]),
+			"en",
+		);
+
+		chai.expect(cache.get("p", "de", "Haus", "en")?.translation).equal("house");
+		chai.expect(cache.get("p", "de", "Haus", "fr")).to.be.undefined;
+		chai.expect(cache.get("p", "de", "Haus")?.definition).equal("Gebäude");
+	});
+
+	it("clear and list", async function () {
+		const cache = new DefinitionCache({});
+		await cache.set(
+			"p",
+			"en",
+			new Map([
+				["b", { definition: "2" }],
+				["a", { definition: "1" }],
+			]),
+		);
+
+		chai.expect(cache.list().map((e) => e.word)).to.deep.equal(["a", "b"]);
+		chai.expect(await cache.clear()).equal(2);
+		chai.expect(cache.size).equal(0);
+	});
+});
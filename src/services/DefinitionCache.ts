@@ -0,0 +1,214 @@
+import { CachedDefinition, Definition } from "../database/interfaces";
+import {
+	DefinitionProvider,
+	DefinitionRequest,
+	normalizeWord,
+	toDefinition,
+} from "./DefinitionProvider";
+
+// 32-bit FNV-1a, enough to tell the context sentences of a word apart
+function hashContext(context: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < context.length; i++) {
+		hash ^= context.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+
+	return hash.toString(36);
+}
+
+/**
+ * Vault-wide definitions, shared by every book and kept whatever the notes
+ * look like. Entries are keyed by provider (with its model), language,
+ * normalized word and context sentence, so switching model fetches fresh
+ * definitions and a word highlighted in another sentence gets the sense it
+ * has there.
+ */
+export class DefinitionCache {
+	private entries: Record<string, CachedDefinition>;
+	private save: () => Promise<void>;
+
+	constructor(
+		entries: Record<string, CachedDefinition>,
+		save: () => Promise<void> = () => Promise.resolve(),
+	) {
+		this.entries = entries;
+		this.save = save;
+	}
+
+	static getKey(
+		provider: string,
+		language: string,
+		word: string,
+		context?: string,
+	): string {
+		const key = `${provider}\t${language}\t${normalizeWord(word)}`;
+		return context ? `${key}\t${hashContext(context)}` : key;
+	}
+
+	get size(): number {
+		return Object.keys(this.entries).length;
+	}
+
+	/**
+	 * The cached definition, unless a translation is asked for that it
+	 * does not have.
+	 */
+	get(
+		provider: string,
+		language: string,
+		word: string,
+		translationLanguage?: string,
+		context?: string,
+	): Definition | undefined {
+		const entry =
+			this.entries[DefinitionCache.getKey(provider, language, word, context)];
+		if (
+			!entry ||
+			(translationLanguage &&
+				entry.translationLanguage != translationLanguage)
+		) {
+			return undefined;
+		}
+
+		return toDefinition({ ...entry });
+	}
+
+	/**
+	 * Caches the definitions, each under the context sentence of its word
+	 * in `contexts` if any.
+	 */
+	async set(
+		provider: string,
+		language: string,
+		definitions: Map<string, Definition>,
+		translationLanguage?: string,
+		contexts?: Map<string, string>,
+	) {
+		if (definitions.size == 0) {
+			return;
+		}
+
+		for (const [word, definition] of definitions) {
+			const context = contexts?.get(word);
+			this.entries[
+				DefinitionCache.getKey(provider, language, word, context)
+			] = {
+				...definition,
+				word: normalizeWord(word),
+				language,
+				provider,
+				...(translationLanguage && definition.translation
+					? { translationLanguage }
+					: {}),
+				dateCreated: new Date().toISOString(),
+			};
+		}
+		await this.save();
+	}
+
+	async clear(): Promise<number> {
+		const count = this.size;
+		for (const key of Object.keys(this.entries)) {
+			delete this.entries[key];
+		}
+		await this.save();
+
+		return count;
+	}
+
+	list(): CachedDefinition[] {
+		return Object.values(this.entries).sort(
+			(a, b) =>
+				a.word.localeCompare(b.word) ||
+				a.language.localeCompare(b.language) ||
+				a.provider.localeCompare(b.provider),
+		);
+	}
+}
+
+/**
+ * Answers from the cache and only asks `provider` for the other words,
+ * caching what it returns, including when the request is cancelled halfway.
+ * Dry runs read the cache without adding to it.
+ */
+export class CachedDefinitionProvider implements DefinitionProvider {
+	readonly name: string;
+	private provider: DefinitionProvider;
+	private cache: DefinitionCache;
+	// Provider and model, e.g. "ollama/llama3.2"
+	private cacheKey: string;
+	private readOnly: boolean;
+
+	constructor(
+		provider: DefinitionProvider,
+		cache: DefinitionCache,
+		cacheKey: string,
+		readOnly = false,
+	) {
+		this.provider = provider;
+		this.cache = cache;
+		this.cacheKey = cacheKey;
+		this.readOnly = readOnly;
+		this.name = provider.name;
+	}
+
+	async getDefinitions(
+		words: string[],
+		language: string,
+		request: DefinitionRequest = {},
+	): Promise<Map<string, Definition>> {
+		// Definitions of German words in English are cached as "de>en"
+		const cacheLanguage =
+			request.definitionLanguage && request.definitionLanguage != language
+				? `${language}>${request.definitionLanguage}`
+				: language;
+		const definitions = new Map<string, Definition>();
+		const missing: string[] = [];
+		for (const word of words) {
+			const cached = this.cache.get(
+				this.cacheKey,
+				cacheLanguage,
+				word,
+				request.translationLanguage,
+				request.contexts?.get(word),
+			);
+			if (cached) {
+				definitions.set(word, cached);
+			} else {
+				missing.push(word);
+			}
+		}
+
+		if (definitions.size > 0) {
+			console.log(
+				`   💾 ${definitions.size}/${words.length} definitions from the cache (${this.cacheKey})`,
+			);
+		}
+		if (missing.length == 0) {
+			request.onProgress?.(words.length, words.length);
+			return definitions;
+		}
+
+		const fetched = await this.provider.getDefinitions(missing, language, {
+			...request,
+			onProgress: (done) =>
+				request.onProgress?.(definitions.size + done, words.length),
+		});
+		if (!this.readOnly) {
+			await this.cache.set(
+				this.cacheKey,
+				cacheLanguage,
+				fetched,
+				request.translationLanguage,
+				request.contexts,
+			);
+		}
+
+		for (const [word, definition] of fetched) {
+			definitions.set(word, definition);
+		}
+
+		return definitions;
+	}
+}
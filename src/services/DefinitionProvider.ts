@@ -0,0 +1,162 @@
+import { Definition } from "../database/interfaces";
+import { getLanguageInfo, getLanguageName } from "./languages";
+
+export type DefinitionProviderType = "ollama" | "openai" | "dictionary";
+
+export interface DefinitionRequest {
+	// Stops outstanding requests, keeping the definitions already fetched
+	signal?: AbortSignal;
+	onProgress?: (_done: number, _total: number) => void;
+	// Word -> sentence of the book it was highlighted in
+	contexts?: Map<string, string>;
+	// Language the definitions are written in, the words' one by default
+	definitionLanguage?: string;
+	// Language the words are also translated into, none by default
+	translationLanguage?: string;
+}
+
+export interface DefinitionPromptOptions {
+	// Sentence of the book the word was highlighted in
+	context?: string;
+	definitionLanguage?: string;
+	translationLanguage?: string;
+}
+
+/**
+ * A source of vocabulary definitions. Words without a definition are left
+ * out of the result, so the next provider of a chain can try them.
+ */
+export interface DefinitionProvider {
+	readonly name: string;
+	getDefinitions(
+		_words: string[],
+		_language: string,
+		_request?: DefinitionRequest,
+	): Promise<Map<string, Definition>>;
+}
+
+/**
+ * Lower case word without surrounding punctuation, so "Ephemeral," and
+ * "ephemeral" share their definition.
+ */
+export function normalizeWord(word: string): string {
+	return word
+		.trim()
+		.toLowerCase()
+		.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
+
+/**
+ * Definition from untyped data, such as the JSON answer of a model or a
+ * dictionary entry, keeping the non-empty string fields only. Undefined
+ * without a definition.
+ */
+export function toDefinition(
+	data: Record<string, unknown>,
+): Definition | undefined {
+	const fields: Partial<Definition> = {};
+	for (const key of ["definition", "translation", "pos", "example"] as const) {
+		const value = data[key];
+		if (typeof value == "string" && value.trim()) {
+			fields[key] = value.trim();
+		}
+	}
+
+	return fields.definition ? (fields as Definition) : undefined;
+}
+
+/**
+ * Reads the answer of a language model: the JSON object asked for by
+ * getDefinitionPrompt, or else the whole answer as the definition, as small
+ * models do not always follow the format.
+ */
+export function parseDefinitionResponse(text: string): Definition | undefined {
+	const json = /\{[\s\S]*\}/.exec(text);
+	if (json) {
+		try {
+			const definition = toDefinition(JSON.parse(json[0]));
+			if (definition) {
+				return definition;
+			}
+		} catch {
+			// Not JSON after all
+		}
+	}
+
+	return toDefinition({ definition: text });
+}
+
+/**
+ * The instruction sent to language models for one word, written in the
+ * language of the definition (the book's one unless told otherwise). With
+ * the sentence it was highlighted in, the model is asked for the sense used
+ * there. The answer is a JSON object, see parseDefinitionResponse.
+ */
+export function getDefinitionPrompt(
+	word: string,
+	language: string,
+	options: DefinitionPromptOptions = {},
+): string {
+	const { context, definitionLanguage = language, translationLanguage } =
+		options;
+	const info = getLanguageInfo(definitionLanguage);
+	const source =
+		definitionLanguage != language
+			? ` ${info.sourcePrompt(getLanguageName(language, definitionLanguage))}`
+			: "";
+	const sense = context ? ` ${info.contextPrompt(context)}` : "";
+	const format = info.formatPrompt(
+		translationLanguage && translationLanguage != language
+			? getLanguageName(translationLanguage, definitionLanguage)
+			: undefined,
+	);
+
+	return `${info.definitionPrompt(word)}${source}${sense} ${format}`;
+}
+
+/**
+ * Asks each provider in turn for the words the previous ones could not
+ * define, e.g. an offline dictionary first and an LLM as fallback.
+ */
+export class ChainedDefinitionProvider implements DefinitionProvider {
+	readonly name: string;
+	private providers: DefinitionProvider[];
+
+	constructor(providers: DefinitionProvider[]) {
+		this.providers = providers;
+		this.name = providers.map((p) => p.name).join(" → ");
+	}
+
+	async getDefinitions(
+		words: string[],
+		language: string,
+		request: DefinitionRequest = {},
+	): Promise<Map<string, Definition>> {
+		const definitions = new Map<string, Definition>();
+
+		let remaining = words;
+		for (const provider of this.providers) {
+			if (remaining.length == 0 || request.signal?.aborted) {
+				break;
+			}
+
+			// Words left to earlier providers count as done
+			const offset = words.length - remaining.length;
+			const found = await provider.getDefinitions(remaining, language, {
+				...request,
+				onProgress: (done) =>
+					request.onProgress?.(offset + done, words.length),
+			});
+			for (const [word, definition] of found) {
+				definitions.set(word, definition);
+			}
+			console.log(
+				`   📖 ${provider.name}: ${found.size}/${remaining.length} definitions`,
+			);
+
+			remaining = remaining.filter((word) => !definitions.has(word));
+		}
+
+		return definitions;
+	}
+}
@@ -0,0 +1,92 @@
+import * as chai from "chai";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+	expandDevicePattern,
+	findMarkupFiles,
+	getDatabasePath,
+	getDeviceRoot,
+} from "./DevicePaths";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+describe("DevicePaths", async function () {
+	let root: string;
+
+	before(function () {
+		root = mkdtempSync(path.join(tmpdir(), "kobo-"));
+		for (const user of ["alice", "bob"]) {
+			mkdirSync(path.join(root, user, "KOBOeReader", ".kobo"), {
+				recursive: true,
+			});
+		}
+		writeFileSync(
+			path.join(root, "alice", "KOBOeReader", ".kobo", "KoboReader.sqlite"),
+			"",
+		);
+	});
+
+	after(function () {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	it("expandDevicePattern without wildcards", async function () {
+		const devicePath = path.join(root, "alice", "KOBOeReader");
+
+		chai.expect(await expandDevicePattern(devicePath)).to.deep.equal([
+			devicePath,
+		]);
+	});
+
+	it("expandDevicePattern with wildcards", async function () {
+		const matches = await expandDevicePattern(
+			path.join(root, "*", "kobo?reader"),
+		);
+
+		chai.expect(matches).to.have.members([
+			path.join(root, "alice", "KOBOeReader"),
+			path.join(root, "bob", "KOBOeReader"),
+		]);
+	});
+
+	it("expandDevicePattern no match", async function () {
+		chai.expect(
+			await expandDevicePattern(path.join(root, "*", "Kindle")),
+		).to.be.empty;
+	});
+
+	it("getDatabasePath", async function () {
+		chai.expect(getDatabasePath("/media/KOBOeReader")).equal(
+			path.join("/media/KOBOeReader", ".kobo", "KoboReader.sqlite"),
+		);
+		chai.expect(getDatabasePath("/backup/KoboReader.sqlite")).equal(
+			"/backup/KoboReader.sqlite",
+		);
+	});
+
+	it("getDeviceRoot", async function () {
+		chai.expect(
+			getDeviceRoot(path.join("/media", "KOBOeReader", ".kobo", "KoboReader.sqlite")),
+		).equal(path.join("/media", "KOBOeReader"));
+		chai.expect(getDeviceRoot("/backup/KoboReader.sqlite")).to.be.undefined;
+	});
+
+	it("findMarkupFiles", async function () {
+		const deviceRoot = path.join(root, "alice", "KOBOeReader");
+		mkdirSync(path.join(deviceRoot, ".kobo", "markups"));
+		writeFileSync(path.join(deviceRoot, ".kobo", "markups", "id1.svg"), "");
+		writeFileSync(path.join(deviceRoot, ".kobo", "markups", "id1.jpg"), "");
+
+		chai.expect(await findMarkupFiles(deviceRoot, "id1")).to.deep.equal([
+			path.join(deviceRoot, ".kobo", "markups", "id1.svg"),
+			path.join(deviceRoot, ".kobo", "markups", "id1.jpg"),
+		]);
+		chai.expect(
+			await findMarkupFiles(deviceRoot, "id1", ["markups/id1.jpg"]),
+		).to.deep.equal([
+			path.join(deviceRoot, ".kobo", "markups", "id1.jpg"),
+		]);
+		chai.expect(await findMarkupFiles(deviceRoot, "id2")).to.be.empty;
+	});
+});
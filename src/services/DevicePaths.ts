@@ -0,0 +1,151 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+function hasWildcard(segment: string): boolean {
+	return /[*?]/.test(segment);
+}
+
+function segmentToRegExp(segment: string): RegExp {
+	const escaped = segment
+		.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*/g, ".*")
+		.replace(/\?/g, ".");
+
+	return new RegExp(`^${escaped}$`, "i");
+}
+
+async function exists(p: string): Promise<boolean> {
+	try {
+		await fs.access(p);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Expands a mount point pattern such as `/Volumes/KOBO*` or `?:\` into the
+ * existing paths it matches. `*` and `?` are supported in any segment,
+ * including a Windows drive letter.
+ */
+export async function expandDevicePattern(pattern: string): Promise<string[]> {
+	const segments = pattern.trim().split(/[\\/]+/);
+	const first = segments.shift() ?? "";
+
+	let roots: string[];
+	if (/^[A-Za-z?*]:$/.test(first)) {
+		const letters = hasWildcard(first)
+			? "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("")
+			: [first[0]];
+		roots = letters.map((letter) => `${letter}:\\`);
+	} else if (first == "") {
+		roots = [path.sep];
+	} else {
+		roots = [first];
+	}
+
+	let matches: string[] = [];
+	for (const root of roots) {
+		if (await exists(root)) {
+			matches.push(root);
+		}
+	}
+
+	for (const segment of segments.filter((s) => s != "")) {
+		const next: string[] = [];
+
+		for (const dir of matches) {
+			if (!hasWildcard(segment)) {
+				const candidate = path.join(dir, segment);
+				if (await exists(candidate)) {
+					next.push(candidate);
+				}
+				continue;
+			}
+
+			const regexp = segmentToRegExp(segment);
+			try {
+				for (const entry of await fs.readdir(dir)) {
+					if (regexp.test(entry)) {
+						next.push(path.join(dir, entry));
+					}
+				}
+			} catch {
+				// Not a directory or not readable
+			}
+		}
+
+		matches = next;
+	}
+
+	return matches;
+}
+
+/**
+ * Resolves a matched device path to its database: either the path itself
+ * when it points at a `.sqlite` file, or `.kobo/KoboReader.sqlite` below it.
+ */
+export function getDatabasePath(devicePath: string): string {
+	return devicePath.toLowerCase().endsWith(".sqlite")
+		? devicePath
+		: path.join(devicePath, ".kobo", "KoboReader.sqlite");
+}
+
+export async function readBinaryFile(filePath: string): Promise<ArrayBuffer> {
+	const file = await fs.readFile(filePath);
+
+	return file.buffer.slice(
+		file.byteOffset,
+		file.byteOffset + file.byteLength,
+	) as ArrayBuffer;
+}
+
+/**
+ * Returns the device root for a database stored at `<root>/.kobo/KoboReader.sqlite`,
+ * or undefined when the database was copied somewhere else.
+ */
+export function getDeviceRoot(databasePath: string): string | undefined {
+	const koboDir = path.dirname(databasePath);
+
+	return path.basename(koboDir).toLowerCase() == ".kobo"
+		? path.dirname(koboDir)
+		: undefined;
+}
+
+/**
+ * Locates the markup files of a stylus annotation. References from the
+ * database are tried relative to `.kobo/markups`, `.kobo` and the device
+ * root; without references `.kobo/markups/<BookmarkID>.svg|.jpg` is used.
+ */
+export async function findMarkupFiles(
+	deviceRoot: string,
+	bookmarkId: string,
+	references: string[] = [],
+): Promise<string[]> {
+	const markupsDir = path.join(deviceRoot, ".kobo", "markups");
+	const names =
+		references.length > 0
+			? references
+			: [`${bookmarkId}.svg`, `${bookmarkId}.jpg`];
+	const found: string[] = [];
+
+	for (const name of names) {
+		const candidates = path.isAbsolute(name)
+			? [name]
+			: [
+					path.join(markupsDir, name),
+					path.join(deviceRoot, ".kobo", name),
+					path.join(deviceRoot, name),
+				];
+
+		for (const candidate of candidates) {
+			if (await exists(candidate)) {
+				found.push(candidate);
+				break;
+			}
+		}
+	}
+
+	return found;
+}
+
@@ -0,0 +1,131 @@
+import { promises as fs } from "fs";
+import { Notice } from "obsidian";
+import KoboHighlightsImporter from "src/main";
+import { ExtractHighlightsModal } from "src/modal/ExtractHighlightsModal";
+import {
+	expandDevicePattern,
+	getDatabasePath,
+	readBinaryFile,
+} from "src/services/DevicePaths";
+import { ImportService } from "src/services/ImportService";
+
+/**
+ * Polls the configured device paths and imports (or prompts to import) when
+ * a KoboReader.sqlite appears or changes.
+ */
+export class DeviceWatcher {
+	plugin: KoboHighlightsImporter;
+
+	private intervalId: number | undefined;
+	private running = false;
+	// database path -> last seen modification time
+	private lastSeen = new Map<string, number>();
+
+	constructor(plugin: KoboHighlightsImporter) {
+		this.plugin = plugin;
+	}
+
+	start() {
+		this.stop();
+
+		const settings = this.plugin.settings;
+		if (settings.autoImport == "off" || settings.devicePaths.length == 0) {
+			return;
+		}
+
+		this.intervalId = window.setInterval(
+			() => this.poll(),
+			Math.max(1, settings.autoImportInterval) * 1000,
+		);
+		this.plugin.registerInterval(this.intervalId);
+		this.poll();
+	}
+
+	stop() {
+		if (this.intervalId !== undefined) {
+			window.clearInterval(this.intervalId);
+			this.intervalId = undefined;
+		}
+	}
+
+	async poll() {
+		if (this.running) {
+			return;
+		}
+
+		this.running = true;
+		try {
+			const seen = new Set<string>();
+
+			for (const pattern of this.plugin.settings.devicePaths) {
+				for (const devicePath of await expandDevicePattern(pattern)) {
+					const databasePath = getDatabasePath(devicePath);
+					let mtime: number;
+					try {
+						mtime = (await fs.stat(databasePath)).mtimeMs;
+					} catch {
+						continue;
+					}
+
+					seen.add(databasePath);
+					if (this.lastSeen.get(databasePath) === mtime) {
+						continue;
+					}
+
+					this.lastSeen.set(databasePath, mtime);
+					console.log(`Kobo database found or changed: ${databasePath}`);
+					await this.onDatabaseFound(databasePath);
+				}
+			}
+
+			// Forget unmounted devices so they are picked up when plugged in again
+			for (const databasePath of this.lastSeen.keys()) {
+				if (!seen.has(databasePath)) {
+					this.lastSeen.delete(databasePath);
+				}
+			}
+		} catch (error) {
+			console.error("Error while looking for a Kobo device:", error);
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private async onDatabaseFound(databasePath: string) {
+		const buffer = await readBinaryFile(databasePath);
+		const { app } = this.plugin;
+
+		this.plugin.settings.lastDatabasePath = databasePath;
+		await this.plugin.saveSettings();
+
+		if (this.plugin.settings.autoImport == "prompt") {
+			const modal = new ExtractHighlightsModal(app, this.plugin);
+			modal.open();
+			await modal.loadFile(buffer, databasePath);
+			return;
+		}
+
+		try {
+			const importer = new ImportService(app, this.plugin);
+			await importer.load(buffer, databasePath);
+
+			const selected = importer.getDefaultSelection(
+				!this.plugin.settings.incrementalImport,
+			);
+			if (selected.size == 0) {
+				console.log("Kobo auto-import: nothing new to import");
+				return;
+			}
+
+			const count = await importer.importBooks(selected);
+			new Notice(
+				`Kobo auto-import: extracted highlights from ${count} book${count !== 1 ? "s" : ""}`,
+			);
+		} catch (error) {
+			console.error("Kobo auto-import failed:", error);
+			new Notice(
+				`Kobo auto-import failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+			);
+		}
+	}
+}
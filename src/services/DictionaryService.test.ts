@@ -0,0 +1,171 @@
+import * as chai from "chai";
+import { ChainedDefinitionProvider, DefinitionProvider } from "./DefinitionProvider";
+import {
+	DictionaryService,
+	parseJsonDictionary,
+	parseStarDict,
+} from "./DictionaryService";
+
+function toArrayBuffer(text: string): ArrayBuffer {
+	const bytes = new TextEncoder().encode(text);
+	return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+describe("DictionaryService", async function () {
+	it("parseJsonDictionary object", async function () {
+		const entries = parseJsonDictionary(
+			JSON.stringify({ Ephemeral: "Lasting a very short time.", empty: "" }),
+		);
+
+		chai.expect(Array.from(entries)).to.deep.equal([
+			["ephemeral", { definition: "Lasting a very short time." }],
+		]);
+	});
+
+	it("parseJsonDictionary Wiktionary JSON Lines", async function () {
+		const entries = parseJsonDictionary(
+			[
+				JSON.stringify({
+					word: "chat",
+					lang_code: "fr",
+					senses: [{ glosses: ["cat"] }, { glosses: ["tomcat"] }],
+				}),
+				JSON.stringify({
+					word: "chat",
+					lang_code: "en",
+					senses: [{ glosses: ["Informal conversation."] }],
+				}),
+			].join("\n"),
+		);
+
+		chai.expect(entries.get("fr\tchat")).to.deep.equal({
+			definition: "cat; tomcat",
+		});
+		chai.expect(entries.get("en\tchat")).to.deep.equal({
+			definition: "Informal conversation.",
+		});
+	});
+
+	it("parseJsonDictionary skips invalid JSON Lines", async function () {
+		const entries = parseJsonDictionary(
+			[
+				JSON.stringify({ word: "chat", senses: [{ glosses: ["cat"] }] }),
+				"{\"word\": \"chien\", \"sen",
+				JSON.stringify({ word: "maison", senses: [{ glosses: ["house"] }] }),
+			].join("\n"),
+		);
+
+		chai.expect(Array.from(entries.keys())).to.deep.equal(["chat", "maison"]);
+	});
+
+	it("parseJsonDictionary structured entries", async function () {
+		const entries = parseJsonDictionary(
+			JSON.stringify([
+				{
+					word: "Haus",
+					lang_code: "de",
+					pos: "noun",
+					senses: [
+						{
+							glosses: ["house"],
+							examples: [{ text: "Das Haus ist alt." }],
+						},
+					],
+					translations: [
+						{ code: "fr", word: "maison" },
+						{ code: "fr", word: "domicile" },
+					],
+				},
+			]),
+		);
+
+		chai.expect(entries.get("de\thaus")).to.deep.equal({
+			definition: "house",
+			pos: "noun",
+			example: "Das Haus ist alt.",
+			translations: { fr: "maison" },
+		});
+		chai.expect(
+			parseJsonDictionary(
+				JSON.stringify({ gato: { definition: "felino", translation: "cat" } }),
+			).get("gato"),
+		).to.deep.equal({ definition: "felino", translation: "cat" });
+	});
+
+	it("parseStarDict", async function () {
+		const encoder = new TextEncoder();
+		const definitions = ["<b>a</b> fruit", "a colour<br>or a fruit"];
+		const dict = encoder.encode(definitions.join(""));
+
+		const records: number[] = [];
+		let offset = 0;
+		["apple", "orange"].forEach((word, i) => {
+			const size = encoder.encode(definitions[i]).length;
+			const numbers = new DataView(new ArrayBuffer(8));
+			numbers.setUint32(0, offset);
+			numbers.setUint32(4, size);
+			records.push(
+				...encoder.encode(word),
+				0,
+				...new Uint8Array(numbers.buffer),
+			);
+			offset += size;
+		});
+
+		const entries = parseStarDict(new Uint8Array(records), dict);
+
+		chai.expect(Array.from(entries)).to.deep.equal([
+			["apple", { definition: "a fruit" }],
+			["orange", { definition: "a colour or a fruit" }],
+		]);
+	});
+
+	it("getDefinitions prefers the book language", async function () {
+		const service = new DictionaryService("dict.jsonl", async () =>
+			toArrayBuffer(
+				[
+					JSON.stringify({ word: "chat", lang_code: "fr", senses: [{ glosses: ["cat"] }] }),
+					JSON.stringify({ word: "chat", senses: [{ glosses: ["conversation"] }] }),
+				].join("\n"),
+			),
+		);
+
+		const french = await service.getDefinitions(["Chat,", "chien"], "fr");
+		const english = await service.getDefinitions(["chat"], "en");
+
+		chai.expect(Array.from(french)).to.deep.equal([["Chat,", { definition: "cat" }]]);
+		chai.expect(Array.from(english)).to.deep.equal([
+			["chat", { definition: "conversation" }],
+		]);
+	});
+
+	it("ChainedDefinitionProvider only asks for missing words", async function () {
+		const asked: string[][] = [];
+		const provider = (
+			name: string,
+			known: Record<string, string>,
+		): DefinitionProvider => ({
+			name,
+			async getDefinitions(words: string[]) {
+				asked.push(words);
+				return new Map(
+					words
+						.filter((w) => w in known)
+						.map((w) => [w, { definition: known[w] }]),
+				);
+			},
+		});
+
+		const chain = new ChainedDefinitionProvider([
+			provider("dictionary", { a: "from dictionary" }),
+			provider("llm", { a: "from llm", b: "from llm" }),
+		]);
+		const definitions = await chain.getDefinitions(["a", "b", "c"], "en");
+
+		chai.expect(asked).to.deep.equal([["a", "b", "c"], ["b", "c"]]);
+		chai.expect(Array.from(definitions)).to.deep.equal([
+			["a", { definition: "from dictionary" }],
+			["b", { definition: "from llm" }],
+		]);
+	});
+});
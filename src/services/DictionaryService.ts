@@ -0,0 +1,312 @@
+import { gunzipSync } from "zlib";
+import { Definition } from "../database/interfaces";
+import {
+	DefinitionProvider,
+	DefinitionRequest,
+	normalizeWord,
+	toDefinition,
+} from "./DefinitionProvider";
+
+// Translations of the word by language, when the dump has them
+type DictionaryEntry = Definition & { translations?: Record<string, string> };
+
+// Entries tagged with a language are stored as `${language}\t${word}`
+type DictionaryEntries = Map<string, DictionaryEntry>;
+
+function cleanDefinition(text: string): string {
+	return text
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0)
+		.slice(0, 2)
+		.join(" ");
+}
+
+function addEntry(
+	entries: DictionaryEntries,
+	word: unknown,
+	definition: unknown,
+	language?: unknown,
+	details: Record<string, unknown> = {},
+) {
+	if (typeof word != "string") {
+		return;
+	}
+
+	const text = Array.isArray(definition)
+		? definition.filter((d) => typeof d == "string").join("; ")
+		: typeof definition == "string"
+			? definition
+			: "";
+	const entry = toDefinition({ ...details, definition: cleanDefinition(text) });
+	const normalized = normalizeWord(word);
+	if (!entry || !normalized) {
+		return;
+	}
+
+	const key =
+		typeof language == "string" && language
+			? `${language}\t${normalized}`
+			: normalized;
+	// Keep the first sense, dumps usually list the most common one first
+	if (!entries.has(key)) {
+		const { translations } = details;
+		entries.set(
+			key,
+			translations && typeof translations == "object"
+				? { ...entry, translations: translations as Record<string, string> }
+				: entry,
+		);
+	}
+}
+
+// Wiktionary translations: [{code, word}], first one per language
+function getTranslations(
+	translations: unknown,
+): Record<string, string> | undefined {
+	if (!Array.isArray(translations)) {
+		return undefined;
+	}
+
+	const byLanguage: Record<string, string> = {};
+	for (const { code, lang_code, word } of translations) {
+		const language = code ?? lang_code;
+		if (typeof language == "string" && typeof word == "string") {
+			byLanguage[language] ??= word;
+		}
+	}
+
+	return Object.keys(byLanguage).length > 0 ? byLanguage : undefined;
+}
+
+function addJsonEntry(entries: DictionaryEntries, entry: unknown) {
+	if (entry == null || typeof entry != "object") {
+		return;
+	}
+
+	const {
+		word,
+		definition,
+		definitions,
+		senses,
+		lang_code,
+		language,
+		translations,
+		...details
+	} = entry as Record<string, unknown>;
+	if (Array.isArray(senses)) {
+		// Wiktionary dump as extracted by wiktextract / kaikki.org
+		const glosses = senses.flatMap((sense) =>
+			Array.isArray(sense?.glosses) ? sense.glosses : [],
+		);
+		const examples = senses.flatMap((sense) =>
+			Array.isArray(sense?.examples) ? sense.examples : [],
+		);
+		addEntry(entries, word, glosses.slice(0, 2), lang_code ?? language, {
+			pos: details.pos,
+			example: examples.find((e) => typeof e?.text == "string")?.text,
+			translations: getTranslations(translations),
+		});
+	} else {
+		addEntry(
+			entries,
+			word,
+			definition ?? definitions,
+			lang_code ?? language,
+			{ ...details, translations: getTranslations(translations) },
+		);
+	}
+}
+
+/**
+ * Parses a JSON dictionary: either an object mapping words to definitions
+ * (or to `{definition, pos, example, translation}`), an array of
+ * `{word, definition, ...}` entries, or JSON Lines of Wiktionary entries
+ * (`{word, lang_code, pos, senses: [{glosses, examples}], translations}`),
+ * whose invalid lines are skipped.
+ */
+export function parseJsonDictionary(text: string): DictionaryEntries {
+	const entries: DictionaryEntries = new Map();
+
+	let json: unknown;
+	try {
+		json = JSON.parse(text);
+	} catch {
+		// A truncated download or a stray line only loses its own entries
+		let invalidLines = 0;
+		for (const line of text.split("\n")) {
+			if (!line.trim()) {
+				continue;
+			}
+
+			try {
+				addJsonEntry(entries, JSON.parse(line));
+			} catch {
+				invalidLines++;
+			}
+		}
+		if (invalidLines > 0) {
+			console.warn(`Skipped ${invalidLines} invalid JSON line(s) of the dictionary`);
+		}
+
+		return entries;
+	}
+
+	if (Array.isArray(json)) {
+		json.forEach((entry) => addJsonEntry(entries, entry));
+	} else if (json != null && typeof json == "object") {
+		for (const [word, definition] of Object.entries(json)) {
+			if (
+				definition != null &&
+				typeof definition == "object" &&
+				!Array.isArray(definition)
+			) {
+				addJsonEntry(entries, { ...definition, word });
+			} else {
+				addEntry(entries, word, definition);
+			}
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Parses a StarDict dictionary from its `.idx` and (uncompressed) `.dict`
+ * files. Each index record is the NUL terminated word followed by the
+ * offset and size of its definition in the `.dict` file.
+ */
+export function parseStarDict(
+	idx: Uint8Array,
+	dict: Uint8Array,
+	offsetBits: 32 | 64 = 32,
+): DictionaryEntries {
+	const entries: DictionaryEntries = new Map();
+	const decoder = new TextDecoder("utf-8");
+	const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+
+	let position = 0;
+	while (position < idx.length) {
+		const end = idx.indexOf(0, position);
+		if (end < 0) {
+			break;
+		}
+
+		const word = decoder.decode(idx.subarray(position, end));
+		position = end + 1;
+
+		let offset: number;
+		if (offsetBits == 64) {
+			offset = Number(view.getBigUint64(position));
+			position += 8;
+		} else {
+			offset = view.getUint32(position);
+			position += 4;
+		}
+		const size = view.getUint32(position);
+		position += 4;
+
+		addEntry(
+			entries,
+			word,
+			decoder.decode(dict.subarray(offset, offset + size)),
+		);
+	}
+
+	return entries;
+}
+
+/**
+ * Offline definitions from a dictionary file in the vault: a JSON or JSON
+ * Lines dump, or a StarDict dictionary given by its `.ifo` file.
+ */
+export class DictionaryService implements DefinitionProvider {
+	readonly name = "dictionary";
+
+	private path: string;
+	private readFile: (_path: string) => Promise<ArrayBuffer>;
+	private entries: Promise<DictionaryEntries> | undefined;
+
+	constructor(
+		path: string,
+		readFile: (_path: string) => Promise<ArrayBuffer>,
+	) {
+		this.path = path;
+		this.readFile = readFile;
+	}
+
+	async getDefinitions(
+		words: string[],
+		language: string,
+		request: DefinitionRequest = {},
+	): Promise<Map<string, Definition>> {
+		const definitions = new Map<string, Definition>();
+
+		let entries: DictionaryEntries;
+		try {
+			entries = await this.load();
+		} catch (error) {
+			console.error(`Error loading dictionary "${this.path}":`, error);
+			return definitions;
+		}
+
+		for (const word of words) {
+			const normalized = normalizeWord(word);
+			const entry =
+				entries.get(`${language}\t${normalized}`) ??
+				entries.get(normalized);
+			if (entry) {
+				const { translations, ...definition } = entry;
+				const translation = request.translationLanguage
+					? translations?.[request.translationLanguage]
+					: undefined;
+				definitions.set(
+					word,
+					translation ? { ...definition, translation } : definition,
+				);
+			}
+		}
+		request.onProgress?.(words.length, words.length);
+
+		return definitions;
+	}
+
+	private load(): Promise<DictionaryEntries> {
+		if (!this.entries) {
+			this.entries = this.parse();
+			// Allow retrying after fixing the dictionary path
+			this.entries.catch(() => (this.entries = undefined));
+		}
+
+		return this.entries;
+	}
+
+	private async parse(): Promise<DictionaryEntries> {
+		const decoder = new TextDecoder("utf-8");
+
+		if (!this.path.toLowerCase().endsWith(".ifo")) {
+			return parseJsonDictionary(
+				decoder.decode(await this.readFile(this.path)),
+			);
+		}
+
+		const base = this.path.slice(0, -".ifo".length);
+		const ifo = decoder.decode(await this.readFile(this.path));
+		const offsetBits = /^idxoffsetbits=64$/m.test(ifo) ? 64 : 32;
+
+		const idx = new Uint8Array(await this.readFile(`${base}.idx`));
+		let dict: Uint8Array;
+		try {
+			dict = gunzipSync(new Uint8Array(await this.readFile(`${base}.dict.dz`)));
+		} catch {
+			dict = new Uint8Array(await this.readFile(`${base}.dict`));
+		}
+
+		const entries = parseStarDict(idx, dict, offsetBits);
+		console.log(`📚 Loaded ${entries.size} dictionary entries from ${this.path}`);
+
+		return entries;
+	}
+}
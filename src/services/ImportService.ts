@@ -0,0 +1,1253 @@
+import type momentFn from "moment";
+import { App, moment, normalizePath, Notice, TFile } from "obsidian";
+import path from "path";
+import { sanitize } from "sanitize-filename-ts";
+import SqlJs from "sql.js";
+import { binary } from "src/binaries/sql-wasm";
+import { HighlightService } from "src/database/Highlight";
+import {
+	BookLanguageOverrides,
+	Bookmark,
+	BookmarkStamp,
+	BookPreview,
+	DeletedHighlightPolicy,
+	Definition,
+	ImportedBookmark,
+	ImportWatermark,
+	StoredReadingSession,
+} from "src/database/interfaces";
+import { Repository } from "src/database/repository";
+import KoboHighlightsImporter from "src/main";
+import { KoboHighlightsImporterSettings } from "src/settings/Settings";
+import {
+	findMarkupFiles,
+	getDeviceRoot,
+	readBinaryFile,
+} from "src/services/DevicePaths";
+import {
+	ChainedDefinitionProvider,
+	DefinitionProvider,
+} from "src/services/DefinitionProvider";
+import {
+	BookContentReader,
+	findContextInHighlights,
+} from "src/services/BookContent";
+import { CachedDefinitionProvider } from "src/services/DefinitionCache";
+import {
+	addDailyHighlights,
+	groupNewHighlightsByDay,
+} from "src/services/DailyNotes";
+import { DictionaryService } from "src/services/DictionaryService";
+import { OllamaService } from "src/services/OllamaService";
+import { OpenAICompatibleService } from "src/services/OpenAICompatibleService";
+import {
+	detectLanguage,
+	getLanguageInfo,
+	normalizeLanguageCode,
+} from "src/services/languages";
+import {
+	mergeReadingSessions,
+	ReadingStats,
+	toReadingSession,
+} from "src/services/ReadingStats";
+import { RequestQueueOptions } from "src/services/RequestQueue";
+import { Lemmatizer, normalizeVocabulary } from "src/services/vocabulary";
+import { getHighlightType } from "src/template/highlightTypes";
+import {
+	applyTemplateTransformations,
+	parseNoteDefinitions,
+} from "src/template/template";
+import {
+	collectLibrary,
+	defaultLibraryDashboardTemplate,
+	renderLibraryDashboard,
+} from "src/template/libraryDashboard";
+import {
+	defaultReadingStatsTemplate,
+	renderReadingStats,
+} from "src/template/readingStats";
+import { getTemplateContents } from "src/template/templateContents";
+import {
+	collectVocabularyEntries,
+	defaultVocabularyIndexTemplate,
+	renderVocabularyIndex,
+	VocabularyEntry,
+} from "src/template/vocabularyIndex";
+
+// Obsidian's moment, typed as a namespace because of esModuleInterop
+const obsidianMoment = moment as unknown as typeof momentFn;
+
+export interface FileChange {
+	fileName: string;
+	// null when the file does not exist yet
+	oldContent: string | null;
+	newContent: string;
+	// Files copied from the device into the vault alongside the note
+	attachments: Attachment[];
+}
+
+export interface Attachment {
+	bookmarkId: string;
+	source: string;
+	fileName: string;
+}
+
+export function getBookFileName(
+	settings: KoboHighlightsImporterSettings,
+	bookTitle: string,
+): string {
+	return normalizePath(`${settings.storageFolder}/${sanitize(bookTitle)}.md`);
+}
+
+/**
+ * Runs an import from a KoboReader.sqlite file: loading it, previewing which
+ * books changed since the last import, and rendering/writing the book notes.
+ * Used by the import modal as well as by imports that run without it.
+ */
+export class ImportService {
+	app: App;
+	plugin: KoboHighlightsImporter;
+	settings: KoboHighlightsImporterSettings;
+
+	service: HighlightService | undefined;
+	// Where the Kobo is mounted, known when the database was read from it
+	deviceRoot: string | undefined;
+	deviceId = "default";
+	stamps: BookmarkStamp[] = [];
+	previousWatermark: ImportWatermark | undefined;
+	// Highlights of new and changed books; unchanged books are loaded on import
+	content = new Map<string, Map<string, Bookmark[]>>();
+	previews = new Map<string, BookPreview>();
+	// Called as definitions of a book come in, e.g. to show progress
+	onDefinitionProgress?: (
+		_bookTitle: string,
+		_done: number,
+		_total: number,
+	) => void;
+	private abortController = new AbortController();
+	// Language each book was rendered in, recorded in the watermark
+	private bookLanguages = new Map<string, string>();
+
+	constructor(app: App, plugin: KoboHighlightsImporter) {
+		this.app = app;
+		this.plugin = plugin;
+		this.settings = plugin.settings;
+	}
+
+	async load(fileBuffer: ArrayBuffer, databasePath?: string) {
+		this.deviceRoot = databasePath ? getDeviceRoot(databasePath) : undefined;
+
+		const SQLEngine = await SqlJs({
+			wasmBinary: binary.buffer,
+		});
+
+		const db = new SQLEngine.Database(new Uint8Array(fileBuffer));
+
+		const repo = new Repository(db);
+		const service: HighlightService = new HighlightService(repo);
+
+		this.service = service;
+		this.deviceId = await repo.getDeviceId();
+		this.stamps = await repo.getBookmarkStamps();
+		this.previousWatermark = this.settings.importWatermarks[this.deviceId];
+
+		let volumeIds: string[] | undefined;
+		if (this.previousWatermark) {
+			volumeIds = Array.from(
+				service.getChangedVolumeIds(
+					this.stamps,
+					this.previousWatermark,
+				),
+			);
+			console.log(
+				`Incremental import: ${volumeIds.length} book(s) with new or changed highlights since ${this.previousWatermark.lastDateCreated}`,
+			);
+		}
+
+		this.content = service.convertToMap(
+			await service.getAllHighlight(
+				this.settings.sortByChapterProgress,
+				volumeIds,
+			),
+		);
+
+		const bookTitles = this.settings.importAllBooks
+			? Array.from((await service.getAllBooks()).keys())
+			: [];
+
+		this.previews = service.getBookPreviews(
+			this.content,
+			this.stamps,
+			this.previousWatermark,
+			bookTitles,
+		);
+	}
+
+	getDefaultSelection(fullReimport: boolean): Set<string> {
+		return new Set(
+			Array.from(this.previews.values())
+				.filter((p) => fullReimport || p.status != "unchanged")
+				.map((p) => p.title),
+		);
+	}
+
+	/**
+	 * Writes the notes of the selected books and records the import in the
+	 * watermark. Returns the number of books written.
+	 */
+	async importBooks(selectedBooks: Set<string>): Promise<number> {
+		const service = this.getService();
+		const selectedContent = await this.collectSelectedContent(
+			service,
+			selectedBooks,
+		);
+
+		const { readingStats, readingSessions } =
+			await this.loadReadingStats(service);
+		const bookChanges = await this.renderBooks(
+			service,
+			selectedContent,
+			true,
+			readingStats,
+			false,
+		);
+		await this.writeBooks(bookChanges);
+		await this.writeGeneratedNotes(await this.renderDailyNotes(selectedContent));
+
+		this.settings.importWatermarks = {
+			...this.settings.importWatermarks,
+			[this.deviceId]: this.getNextWatermark(
+				service,
+				selectedBooks,
+				selectedContent,
+			),
+		};
+		if (readingSessions) {
+			this.settings.readingSessions = readingSessions;
+		}
+		await this.plugin.saveSettings();
+
+		await this.writeGeneratedNotes(
+			await this.renderSummaryNotes(
+				service,
+				this.settings.importWatermarks,
+				readingStats,
+				bookChanges,
+			),
+		);
+
+		return selectedContent.size;
+	}
+
+	/**
+	 * The watermark of the device once the selected books are imported, with
+	 * the language each book was rendered in.
+	 */
+	private getNextWatermark(
+		service: HighlightService,
+		selectedBooks: Set<string>,
+		selectedContent: Map<string, Map<string, Bookmark[]>>,
+	): ImportWatermark {
+		// Only move the watermark forward when no changed book was skipped,
+		// otherwise the skipped changes would be missed by the next import.
+		const skippedChanges = Array.from(this.previews.values()).some(
+			(p) => p.status != "unchanged" && !selectedBooks.has(p.title),
+		);
+		const watermark = service.updateWatermark(
+			this.previousWatermark,
+			skippedChanges ? [] : this.stamps,
+			selectedContent,
+		);
+		for (const [bookTitle, language] of this.bookLanguages) {
+			if (watermark.books[bookTitle]) {
+				watermark.books[bookTitle].language = language;
+			}
+		}
+
+		return watermark;
+	}
+
+	/**
+	 * Renders the notes regenerated after the book notes: the vocabulary
+	 * index, the library dashboard and the reading statistics. The book
+	 * notes of the import are read from `bookChanges`, as a dry run does not
+	 * write them.
+	 */
+	private async renderSummaryNotes(
+		service: HighlightService,
+		watermarks: Record<string, ImportWatermark>,
+		readingStats: ReadingStats | undefined,
+		bookChanges: FileChange[],
+	): Promise<FileChange[]> {
+		const bookNotes = new Map(
+			bookChanges.map((change) => [change.fileName, change.newContent]),
+		);
+
+		return [
+			...(await this.renderVocabularyIndexNotes(watermarks, bookNotes)),
+			...(await this.renderLibraryDashboardNote(service, bookNotes)),
+			...(await this.renderReadingStatsNote(readingStats)),
+		];
+	}
+
+	/**
+	 * Renders the library dashboard note from the details of every book on
+	 * the device, linking the books that have a note.
+	 */
+	private async renderLibraryDashboardNote(
+		service: HighlightService,
+		bookNotes: Map<string, string>,
+	): Promise<FileChange[]> {
+		const dashboardPath = this.settings.libraryDashboardPath;
+		if (!dashboardPath) {
+			return [];
+		}
+
+		const books = Array.from((await service.getAllBooks()).values());
+		const notes = new Set<string>();
+		for (const book of books) {
+			const fileName = this.getBookFileName(book.title);
+			if (
+				bookNotes.has(fileName) ||
+				(await this.app.vault.adapter.exists(fileName))
+			) {
+				notes.add(book.title);
+			}
+		}
+
+		const library = collectLibrary(books, (bookTitle) =>
+			notes.has(bookTitle)
+				? path.basename(this.getBookFileName(bookTitle), ".md")
+				: undefined,
+		);
+		const template = await getTemplateContents(
+			this.app,
+			this.settings.libraryDashboardTemplatePath,
+			defaultLibraryDashboardTemplate,
+		);
+
+		return [
+			await this.toGeneratedChange(
+				dashboardPath,
+				renderLibraryDashboard(template, library),
+			),
+		];
+	}
+
+	/**
+	 * Renders the vocabulary index note, or one note per language, from the
+	 * import history and the definitions of the book notes.
+	 */
+	private async renderVocabularyIndexNotes(
+		watermarks: Record<string, ImportWatermark>,
+		bookNotes: Map<string, string>,
+	): Promise<FileChange[]> {
+		const indexPath = this.settings.vocabularyIndexPath;
+		if (!indexPath) {
+			return [];
+		}
+
+		const definitions = new Map<string, Map<string, Definition>>();
+		for (const watermark of Object.values(watermarks)) {
+			for (const bookTitle of Object.keys(watermark.books)) {
+				const fileName = this.getBookFileName(bookTitle);
+				if (definitions.has(bookTitle)) {
+					continue;
+				}
+
+				const content =
+					bookNotes.get(fileName) ??
+					((await this.app.vault.adapter.exists(fileName))
+						? await this.app.vault.adapter.read(fileName)
+						: undefined);
+				if (content != undefined) {
+					definitions.set(bookTitle, parseNoteDefinitions(content));
+				}
+			}
+		}
+
+		const entries = collectVocabularyEntries(
+			watermarks,
+			this.settings.highlightTypes,
+			definitions,
+			(bookTitle) => path.basename(this.getBookFileName(bookTitle), ".md"),
+		);
+		const template = await getTemplateContents(
+			this.app,
+			this.settings.vocabularyIndexTemplatePath,
+			defaultVocabularyIndexTemplate,
+		);
+
+		const fileName = this.getGeneratedNoteName(indexPath);
+		const notes = new Map<string, { language?: string; entries: VocabularyEntry[] }>();
+		for (const entry of entries) {
+			// Words of books imported before languages were recorded stay in
+			// the main note
+			const language = this.settings.vocabularyIndexPerLanguage
+				? entry.language
+				: undefined;
+			const noteName = language
+				? fileName.replace(/\.md$/, ` (${getLanguageInfo(language).name}).md`)
+				: fileName;
+			const note = notes.get(noteName) ?? { language, entries: [] };
+			note.entries.push(entry);
+			notes.set(noteName, note);
+		}
+		if (notes.size == 0) {
+			notes.set(fileName, { entries: [] });
+		}
+
+		const changes: FileChange[] = [];
+		for (const [noteName, note] of notes) {
+			changes.push(
+				await this.toGeneratedChange(
+					noteName,
+					renderVocabularyIndex(template, note.entries, note.language),
+				),
+			);
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Reads the reading statistics, only when the statistics note or the
+	 * book template uses them, as the queries go through the whole analytics
+	 * history. The statistics cover the sessions of every device kept in the
+	 * plugin data, merged with the ones on the device, which are returned
+	 * to be kept once the import is done.
+	 */
+	private async loadReadingStats(service: HighlightService): Promise<{
+		readingStats?: ReadingStats;
+		readingSessions?: Record<string, StoredReadingSession[]>;
+	}> {
+		const template = await getTemplateContents(
+			this.app,
+			this.settings.templatePath,
+		);
+		if (
+			!this.settings.readingStatsPath &&
+			!template.includes("readingStats")
+		) {
+			return {};
+		}
+
+		const readingSessions = {
+			...this.settings.readingSessions,
+			[this.deviceId]: mergeReadingSessions(
+				this.settings.readingSessions[this.deviceId] ?? [],
+				await service.getReadingSessions(),
+			),
+		};
+		const readingStats = await service.getReadingStats(
+			Object.values(readingSessions).flat().map(toReadingSession),
+		);
+
+		return { readingStats, readingSessions };
+	}
+
+	/**
+	 * Renders the reading statistics note from the reading sessions and
+	 * highlights of the device.
+	 */
+	private async renderReadingStatsNote(
+		stats: ReadingStats | undefined,
+	): Promise<FileChange[]> {
+		const statsPath = this.settings.readingStatsPath;
+		if (!statsPath || !stats) {
+			return [];
+		}
+
+		const template = await getTemplateContents(
+			this.app,
+			this.settings.readingStatsTemplatePath,
+			defaultReadingStatsTemplate,
+		);
+
+		return [
+			await this.toGeneratedChange(statsPath, renderReadingStats(template, stats)),
+		];
+	}
+
+	/**
+	 * Adds the new highlights of each day to that day's daily note, in the
+	 * folder and format of the Daily notes core plugin. Daily notes that do
+	 * not exist are only created when the setting asks for it, and notes
+	 * left unchanged are not returned.
+	 */
+	private async renderDailyNotes(
+		content: Map<string, Map<string, Bookmark[]>>,
+	): Promise<FileChange[]> {
+		if (!this.settings.dailyNotes) {
+			return [];
+		}
+
+		const days = groupNewHighlightsByDay(
+			content,
+			this.previousWatermark,
+			(bookTitle) => path.basename(this.getBookFileName(bookTitle), ".md"),
+			this.settings.dailyNotesBackfill,
+		);
+		const { folder, format } = this.getDailyNoteSettings();
+		const changes: FileChange[] = [];
+
+		for (const [day, highlights] of days) {
+			const fileName = normalizePath(
+				`${folder}/${obsidianMoment(day, "YYYY-MM-DD").format(format)}.md`,
+			);
+			const exists = await this.app.vault.adapter.exists(fileName);
+			if (!exists && !this.settings.dailyNotesCreate) {
+				continue;
+			}
+
+			const oldContent = exists ? await this.app.vault.adapter.read(fileName) : null;
+			const newContent = addDailyHighlights(
+				oldContent ?? "",
+				highlights,
+				this.settings.dailyNotesEmbed,
+			);
+			if (newContent != oldContent) {
+				changes.push({ fileName, oldContent, newContent, attachments: [] });
+			}
+		}
+
+		return changes;
+	}
+
+	// Defaults of the Daily notes core plugin, used when it is off too
+	private getDailyNoteSettings(): { folder: string; format: string } {
+		// The core plugins are not part of the public API
+		const options = (
+			this.app as App & {
+				internalPlugins?: {
+					getPluginById(
+						_id: string,
+					): { instance?: { options?: { folder?: string; format?: string } } } | undefined;
+				};
+			}
+		).internalPlugins?.getPluginById("daily-notes")?.instance?.options;
+
+		return {
+			folder: options?.folder?.trim() ?? "",
+			format: options?.format?.trim() || "YYYY-MM-DD",
+		};
+	}
+
+	private getGeneratedNoteName(notePath: string): string {
+		return normalizePath(notePath.endsWith(".md") ? notePath : `${notePath}.md`);
+	}
+
+	// Notes regenerated on each import, e.g. the vocabulary index
+	private async toGeneratedChange(
+		notePath: string,
+		newContent: string,
+	): Promise<FileChange> {
+		const fileName = this.getGeneratedNoteName(notePath);
+		const oldContent = (await this.app.vault.adapter.exists(fileName))
+			? await this.app.vault.adapter.read(fileName)
+			: null;
+
+		return { fileName, oldContent, newContent, attachments: [] };
+	}
+
+	private async writeGeneratedNotes(changes: FileChange[]) {
+		for (const change of changes) {
+			if (change.newContent === change.oldContent) {
+				continue;
+			}
+
+			const folder = path.dirname(change.fileName);
+			if (folder != "." && !(await this.app.vault.adapter.exists(folder))) {
+				await this.app.vault.adapter.mkdir(folder);
+			}
+
+			await this.app.vault.adapter.write(change.fileName, change.newContent);
+			console.log(`   ✅ Generated: ${change.fileName}`);
+		}
+	}
+
+	/**
+	 * Renders every note an import of the selected books would write, the
+	 * daily notes and the generated notes included, without writing any.
+	 */
+	async dryRunBooks(
+		selectedBooks: Set<string>,
+		fetchDefinitions: boolean,
+	): Promise<FileChange[]> {
+		const service = this.getService();
+		const selectedContent = await this.collectSelectedContent(
+			service,
+			selectedBooks,
+			true,
+		);
+
+		const { readingStats } = await this.loadReadingStats(service);
+		const bookChanges = await this.renderBooks(
+			service,
+			selectedContent,
+			fetchDefinitions,
+			readingStats,
+			true,
+		);
+
+		return [
+			...bookChanges,
+			...(await this.renderDailyNotes(selectedContent)),
+			...(await this.renderSummaryNotes(
+				service,
+				{
+					...this.settings.importWatermarks,
+					[this.deviceId]: this.getNextWatermark(
+						service,
+						selectedBooks,
+						selectedContent,
+					),
+				},
+				readingStats,
+				bookChanges,
+			)),
+		];
+	}
+
+	private getService(): HighlightService {
+		if (!this.service) {
+			throw new Error("No sqlite DB file selected...");
+		}
+
+		return this.service;
+	}
+
+	/**
+	 * Gathers the highlights of every selected book, reading the ones that
+	 * were skipped by the preview and applying the deleted highlights policy.
+	 * Dry runs do not report the deleted highlights.
+	 */
+	private async collectSelectedContent(
+		service: HighlightService,
+		selectedBooks: Set<string>,
+		dryRun = false,
+	): Promise<Map<string, Map<string, Bookmark[]>>> {
+		const previous = this.previousWatermark;
+		const selectedContent = new Map<string, Map<string, Bookmark[]>>();
+		const unloaded: string[] = [];
+
+		for (const bookTitle of selectedBooks) {
+			const chapters = this.content.get(bookTitle);
+			if (chapters) {
+				selectedContent.set(bookTitle, chapters);
+			} else {
+				unloaded.push(bookTitle);
+			}
+		}
+
+		// Books that were unchanged at preview time were not read yet
+		const volumeIds = unloaded
+			.map((t) => previous?.books[t]?.volumeId)
+			.filter((id): id is string => !!id);
+		if (volumeIds.length > 0) {
+			const loaded = service.convertToMap(
+				await service.getAllHighlight(
+					this.settings.sortByChapterProgress,
+					volumeIds,
+				),
+			);
+			for (const [bookTitle, chapters] of loaded) {
+				if (selectedBooks.has(bookTitle)) {
+					selectedContent.set(bookTitle, chapters);
+				}
+			}
+		}
+
+		for (const bookTitle of unloaded) {
+			if (!selectedContent.has(bookTitle)) {
+				selectedContent.set(bookTitle, service.createEmptyContentMap());
+			}
+		}
+
+		if (previous) {
+			const books: ImportWatermark["books"] = {};
+			for (const bookTitle of selectedBooks) {
+				if (previous.books[bookTitle]) {
+					books[bookTitle] = previous.books[bookTitle];
+				}
+			}
+
+			const deleted = service.applyDeletedHighlights(
+				selectedContent,
+				this.stamps,
+				{ ...previous, books },
+				(title) => this.getDeletedHighlightPolicy(title),
+			);
+			if (!dryRun) {
+				this.reportDeletedHighlights(deleted);
+			}
+		}
+
+		return selectedContent;
+	}
+
+	// Notes that would not change are left alone, keeping their modification
+	// time and sparing sync tools a rewrite
+	private async writeBooks(changes: FileChange[]) {
+		for (const change of changes) {
+			for (const attachment of change.attachments) {
+				await this.copyAttachment(attachment);
+			}
+
+			if (change.newContent === change.oldContent) {
+				console.log(`   ⏭️  Unchanged: ${change.fileName}`);
+				continue;
+			}
+
+			await this.app.vault.adapter.write(
+				change.fileName,
+				change.newContent,
+			);
+			console.log(`   ✅ Completed: ${change.fileName}`);
+		}
+	}
+
+	/**
+	 * Runs the whole pipeline (definitions, template rendering, merging of
+	 * user content) for every book without touching the vault. Dry runs do
+	 * not add the definitions they fetch to the definition cache.
+	 */
+	private async renderBooks(
+		service: HighlightService,
+		content: Map<string, Map<string, Bookmark[]>>,
+		fetchDefinitions: boolean,
+		readingStats: ReadingStats | undefined,
+		dryRun: boolean,
+	): Promise<FileChange[]> {
+		const changes: FileChange[] = [];
+
+		console.log(`\n========== PROCESSING ${content.size} BOOK(S) SEPARATELY ==========`);
+		for (const [bookTitle] of content) {
+			console.log(`📚 Book: ${bookTitle}`);
+		}
+		console.log(`==================================================\n`);
+
+		const template = await getTemplateContents(
+			this.app,
+			this.settings.templatePath,
+		);
+
+		const definitionProvider = this.getDefinitionProvider(dryRun);
+		const lemmatizer = new Lemmatizer(
+			this.settings.lemmaFolder ? normalizePath(this.settings.lemmaFolder) : "",
+			async (path) =>
+				(await this.app.vault.adapter.exists(path))
+					? this.app.vault.adapter.read(path)
+					: undefined,
+		);
+		const contentReader = this.deviceRoot
+			? new BookContentReader(this.deviceRoot, readBinaryFile)
+			: undefined;
+		this.abortController = new AbortController();
+		const { signal } = this.abortController;
+		this.bookLanguages.clear();
+
+		// Process each book individually with its own language detection
+		for (const [bookTitle, chapters] of content) {
+			console.log(`\n📖 PROCESSING BOOK: "${bookTitle}"`);
+			
+			const fileName = this.getBookFileName(bookTitle);
+
+			// Collect all highlights for THIS book, split by type
+			const vocabularyBookmarks: Bookmark[] = [];
+			let totalHighlights = 0;
+			let quoteCount = 0;
+			for (const [chapterName, bookmarks] of chapters) {
+				console.log(`   📂 Chapter "${chapterName.trim()}": ${bookmarks.length} highlight(s)`);
+				for (const bookmark of bookmarks) {
+					totalHighlights++;
+					if (bookmark.kind && bookmark.kind != "highlight") {
+						continue;
+					}
+					if (getHighlightType(bookmark.color, this.settings.highlightTypes).vocabulary) {
+						vocabularyBookmarks.push(bookmark);
+					} else {
+						quoteCount++;
+					}
+				}
+			}
+			console.log(`   📝 Total highlights from DB: ${totalHighlights} (${vocabularyBookmarks.length} vocab, ${quoteCount} quotes)`);
+			if (vocabularyBookmarks.length > 0) {
+				console.log(`   Vocabulary: ${vocabularyBookmarks.map((b) => b.text).join(', ')}`);
+			}
+			await this.findContexts(chapters, contentReader);
+
+			// Parse existing definitions from THIS book's markdown file
+			let existingDefinitions = new Map<string, Definition>();
+			const fileExists = await this.app.vault.adapter.exists(fileName);
+			const existingContent = fileExists
+				? await this.app.vault.adapter.read(fileName)
+				: null;
+			if (existingContent != null) {
+				existingDefinitions = parseNoteDefinitions(existingContent);
+				console.log(`   ♻️  Reusing ${existingDefinitions.size} existing definitions`);
+			}
+
+			// A `kobo-language` override wins, then the language stored by the
+			// Kobo; otherwise detect it from ALL highlights of THIS book (not
+			// just new words), so it is correctly detected even when all
+			// definitions are cached.
+			const details = await service.getBookDetailsFromBookTitle(bookTitle);
+			const overrides = this.getBookLanguageOverrides(bookTitle);
+			let detectedLanguage = overrides.language;
+			if (detectedLanguage) {
+				console.log(`   🎯 Book language from frontmatter: ${getLanguageInfo(detectedLanguage).name.toUpperCase()} (${detectedLanguage})`);
+			} else if ((detectedLanguage = normalizeLanguageCode(details.language))) {
+				console.log(`   🎯 Book language from Kobo: ${getLanguageInfo(detectedLanguage).name.toUpperCase()} (${detectedLanguage})`);
+			} else {
+				const sample = Array.from(chapters.values())
+					.flat()
+					.flatMap((b) => [b.text, b.context ?? ""]);
+				console.log(`   🔎 Detecting language from ${sample.length} highlights...`);
+				detectedLanguage = detectLanguage(sample);
+				console.log(`   🎯 DETECTED: ${getLanguageInfo(detectedLanguage).name.toUpperCase()}`);
+			}
+			this.bookLanguages.set(bookTitle, detectedLanguage);
+			const definitionLanguage =
+				overrides.definitionLanguage ||
+				this.settings.definitionLanguage ||
+				detectedLanguage;
+			// No translation of the words of a book into its own language
+			const translationLanguage =
+				this.settings.translationLanguage != detectedLanguage
+					? this.settings.translationLanguage || undefined
+					: undefined;
+
+			// Define each word once, in its normalized form (lemma), while the
+			// note keeps the highlighted form
+			const lemmas = await lemmatizer.getLemmas(detectedLanguage);
+			const contexts = new Map<string, string>();
+			for (const bookmark of vocabularyBookmarks) {
+				bookmark.lemma = normalizeVocabulary(bookmark.text, detectedLanguage, lemmas);
+				if (bookmark.context && !contexts.has(bookmark.lemma)) {
+					contexts.set(bookmark.lemma, bookmark.context);
+				}
+			}
+
+			// Filter out words that already have definitions (and translations)
+			const wordsNeedingDefinitions = Array.from(
+				new Set(
+					vocabularyBookmarks
+						.filter(b => !existingDefinitions.get(b.text) || (!!translationLanguage && !existingDefinitions.get(b.text)?.translation))
+						.map(b => b.lemma ?? b.text)
+				)
+			);
+			if (wordsNeedingDefinitions.length > 0) {
+				console.log(`   🆕 New words needing definitions: ${wordsNeedingDefinitions.join(', ')}`);
+			} else {
+				console.log(`   ✅ All ${vocabularyBookmarks.length} definitions already cached`);
+			}
+
+			// Fetch definitions only for new words in THIS book
+			const definitions = new Map<string, Definition>(existingDefinitions);
+			if (fetchDefinitions && definitionProvider && wordsNeedingDefinitions.length > 0 && !signal.aborted) {
+				const langName = getLanguageInfo(definitionLanguage).name;
+				console.log(`   🤖 Fetching ${wordsNeedingDefinitions.length} ${langName} definitions...`);
+				new Notice(
+					`Fetching ${langName} definitions for "${bookTitle}" (${wordsNeedingDefinitions.length} words)...`,
+				);
+				const newDefinitions = await definitionProvider.getDefinitions(
+					wordsNeedingDefinitions,
+					detectedLanguage,
+					{
+						signal,
+						contexts,
+						definitionLanguage,
+						translationLanguage,
+						onProgress: (done, total) =>
+							this.onDefinitionProgress?.(bookTitle, done, total),
+					},
+				);
+				// Merge new definitions with existing ones, by highlighted form
+				for (const bookmark of vocabularyBookmarks) {
+					const definition = newDefinitions.get(bookmark.lemma ?? bookmark.text);
+					if (definition) {
+						definitions.set(bookmark.text, definition);
+					}
+				}
+			}
+
+			// Always (re)generate the file from the template.
+			// `chapters` contains ALL highlights from the database and
+			// `definitions` contains both previously-cached and newly-fetched
+			// definitions, so the output is always complete and consistent.
+			const attachments = await this.findMarkupAttachments(chapters);
+			const markupImages = new Map<string, string[]>();
+			for (const attachment of attachments) {
+				markupImages.set(attachment.bookmarkId, [
+					...(markupImages.get(attachment.bookmarkId) ?? []),
+					attachment.fileName,
+				]);
+			}
+
+			console.log(`   💾 ${fileExists ? 'Regenerating' : 'Creating'} file with language: ${detectedLanguage}`);
+			const generatedContent = applyTemplateTransformations(template, chapters, details, definitions, detectedLanguage, markupImages, this.settings.highlightTypes, definitionLanguage, overrides, readingStats?.books.find((b) => b.title == bookTitle), this.getDeletedHighlightOverride(bookTitle));
+			console.log(`   📋 Frontmatter check: ${generatedContent.substring(0, 100)}`);
+
+			let finalContent = generatedContent;
+			if (existingContent != null) {
+				const userContent = this.extractUserContent(existingContent);
+				if (userContent.size > 0 || userContent.has('__trailing__')) {
+					finalContent = this.reinsertUserContent(generatedContent, userContent);
+					const preservedChapters = [...userContent.keys()].filter(k => k !== '__trailing__');
+					console.log(`   📌 Preserved user content in ${preservedChapters.length} chapter(s)`);
+				}
+			}
+
+			changes.push({
+				fileName,
+				oldContent: existingContent,
+				newContent: finalContent,
+				attachments,
+			});
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Sets the context sentence of every vocabulary highlight that has none
+	 * from the database: from the book file on the device, or else from
+	 * another highlight of the chapter containing the word.
+	 */
+	private async findContexts(
+		chapters: Map<string, Bookmark[]>,
+		contentReader: BookContentReader | undefined,
+	) {
+		for (const bookmarks of chapters.values()) {
+			for (const bookmark of bookmarks) {
+				if (
+					(bookmark.kind && bookmark.kind != "highlight") ||
+					!getHighlightType(bookmark.color, this.settings.highlightTypes).vocabulary
+				) {
+					continue;
+				}
+
+				if (!bookmark.context && contentReader) {
+					try {
+						bookmark.context = await contentReader.getContext(bookmark);
+					} catch (error) {
+						console.warn(`Could not find the context of "${bookmark.text}":`, error);
+					}
+				}
+				bookmark.context ??= findContextInHighlights(bookmark, bookmarks);
+			}
+		}
+	}
+
+	/**
+	 * Finds the markup images of the book's stylus annotations on the device
+	 * and where they go in the vault. Needs the device root, so nothing is
+	 * found when the database was copied off the device.
+	 */
+	private async findMarkupAttachments(
+		chapters: Map<string, Bookmark[]>,
+	): Promise<Attachment[]> {
+		const deviceRoot = this.deviceRoot;
+		if (!deviceRoot) {
+			return [];
+		}
+
+		const attachments: Attachment[] = [];
+		for (const bookmarks of chapters.values()) {
+			for (const bookmark of bookmarks) {
+				if (bookmark.kind != "markup") {
+					continue;
+				}
+
+				const sources = await findMarkupFiles(
+					deviceRoot,
+					bookmark.bookmarkId,
+					bookmark.markupFiles,
+				);
+				sources.forEach((source, index) => {
+					const suffix = index > 0 ? `-${index}` : "";
+					attachments.push({
+						bookmarkId: bookmark.bookmarkId,
+						source,
+						fileName: normalizePath(
+							`${this.settings.markupFolder}/${sanitize(bookmark.bookmarkId)}${suffix}${path.extname(source)}`,
+						),
+					});
+				});
+			}
+		}
+
+		return attachments;
+	}
+
+	private async copyAttachment(attachment: Attachment) {
+		const folder = attachment.fileName.substring(
+			0,
+			attachment.fileName.lastIndexOf("/"),
+		);
+		if (folder && !(await this.app.vault.adapter.exists(folder))) {
+			await this.app.vault.adapter.mkdir(folder);
+		}
+
+		const data = await readBinaryFile(attachment.source);
+		await this.app.vault.adapter.writeBinary(attachment.fileName, data);
+		console.log(`   🖼️  Copied markup: ${attachment.fileName}`);
+	}
+
+	/**
+	 * Builds the chain of definition providers from the settings, skipping
+	 * the ones that are not configured. Undefined when none is usable.
+	 * Language models go through the definition cache, the dictionary is
+	 * already offline.
+	 */
+	private getDefinitionProvider(
+		readOnlyCache = false,
+	): DefinitionProvider | undefined {
+		const providers: DefinitionProvider[] = [];
+		const queue: Partial<RequestQueueOptions> = {
+			concurrency: this.settings.definitionConcurrency,
+			timeout: this.settings.definitionTimeout * 1000,
+			retries: this.settings.definitionRetries,
+		};
+
+		for (const type of this.settings.definitionProviders) {
+			if (type == "ollama" && this.settings.ollamaModel) {
+				providers.push(
+					new CachedDefinitionProvider(
+						new OllamaService(this.settings.ollamaModel, undefined, queue),
+						this.plugin.definitionCache,
+						`ollama/${this.settings.ollamaModel}`,
+						readOnlyCache,
+					),
+				);
+			} else if (type == "openai" && this.settings.openaiBaseUrl && this.settings.openaiModel) {
+				providers.push(
+					new CachedDefinitionProvider(
+						new OpenAICompatibleService({
+							baseUrl: this.settings.openaiBaseUrl,
+							model: this.settings.openaiModel,
+							apiKey: this.settings.openaiApiKey,
+							temperature: this.settings.openaiTemperature,
+							systemPrompt: this.settings.openaiSystemPrompt,
+							queue,
+						}),
+						this.plugin.definitionCache,
+						`openai/${this.settings.openaiModel}`,
+						readOnlyCache,
+					),
+				);
+			} else if (type == "dictionary" && this.settings.dictionaryPath) {
+				providers.push(
+					new DictionaryService(
+						normalizePath(this.settings.dictionaryPath),
+						(path) => this.app.vault.adapter.readBinary(path),
+					),
+				);
+			}
+		}
+
+		if (providers.length == 0) {
+			return undefined;
+		}
+
+		return providers.length == 1
+			? providers[0]
+			: new ChainedDefinitionProvider(providers);
+	}
+
+	/**
+	 * Stops fetching definitions. Requests in flight are aborted, the
+	 * definitions already fetched are kept and the notes are still written.
+	 */
+	cancel() {
+		this.abortController.abort();
+	}
+
+	private getBookFileName(bookTitle: string): string {
+		return getBookFileName(this.settings, bookTitle);
+	}
+
+	/**
+	 * Reads the per-book `kobo-deleted-highlights` frontmatter override,
+	 * falling back to the global setting.
+	 */
+	private getDeletedHighlightPolicy(
+		bookTitle: string,
+	): DeletedHighlightPolicy {
+		return (
+			this.getDeletedHighlightOverride(bookTitle) ??
+			this.settings.deletedHighlightPolicy
+		);
+	}
+
+	private getDeletedHighlightOverride(
+		bookTitle: string,
+	): DeletedHighlightPolicy | undefined {
+		const file = this.app.vault.getAbstractFileByPath(
+			this.getBookFileName(bookTitle),
+		);
+		if (file instanceof TFile) {
+			const override =
+				this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+					"kobo-deleted-highlights"
+				];
+			if (["remove", "mark", "archive"].includes(override)) {
+				return override;
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Reads the per-book `kobo-language` and `definition-language`
+	 * frontmatter overrides. Unknown values are ignored.
+	 */
+	private getBookLanguageOverrides(bookTitle: string): BookLanguageOverrides {
+		const file = this.app.vault.getAbstractFileByPath(
+			this.getBookFileName(bookTitle),
+		);
+		const frontmatter =
+			file instanceof TFile
+				? this.app.metadataCache.getFileCache(file)?.frontmatter
+				: undefined;
+
+		return {
+			language: normalizeLanguageCode(frontmatter?.["kobo-language"]),
+			definitionLanguage: normalizeLanguageCode(
+				frontmatter?.["definition-language"],
+			),
+		};
+	}
+
+	private reportDeletedHighlights(
+		deleted: Map<string, ImportedBookmark[]>,
+	): void {
+		if (deleted.size == 0) {
+			return;
+		}
+
+		let total = 0;
+		const lines: string[] = [];
+		for (const [bookTitle, bookmarks] of deleted) {
+			total += bookmarks.length;
+			lines.push(
+				`${bookTitle} (${this.getDeletedHighlightPolicy(bookTitle)}): ${bookmarks.length}`,
+			);
+			for (const bookmark of bookmarks) {
+				console.log(
+					`   🗑️  Deleted on device in "${bookTitle}": ${bookmark.text.substring(0, 60)}`,
+				);
+			}
+		}
+
+		new Notice(
+			`${total} highlight${total !== 1 ? "s" : ""} deleted on device:\n${lines.join("\n")}`,
+			10000,
+		);
+	}
+
+
+	/**
+	 * Extracts user-added content from an existing markdown file.
+	 * User content is anything between `%% kobo-highlights-end %%` and the next
+	 * `## ` chapter header (or end of file). Returns a Map keyed by chapter name.
+	 * Trailing content after the last chapter is stored under '__trailing__'.
+	 */
+	private extractUserContent(existingContent: string): Map<string, string> {
+		const userContent = new Map<string, string>();
+		const lines = existingContent.split('\n');
+
+		let currentChapter = '';
+		let afterAutoEnd = false;
+		let userLines: string[] = [];
+
+		for (const line of lines) {
+			// Detect chapter headers
+			if (line.match(/^##\s+/)) {
+				// Save accumulated user content for previous chapter
+				if (currentChapter && userLines.length > 0) {
+					const trimmed = userLines.join('\n').trim();
+					if (trimmed) {
+						userContent.set(currentChapter, trimmed);
+					}
+				}
+				currentChapter = line.replace(/^##\s+/, '').trim();
+				userLines = [];
+				afterAutoEnd = false;
+				continue;
+			}
+
+			// Detect end-of-auto marker
+			if (line.includes('kobo-highlights-end')) {
+				afterAutoEnd = true;
+				continue;
+			}
+
+			// Detect start-of-auto marker (stop collecting user content)
+			if (line.includes('kobo-highlights-start')) {
+				afterAutoEnd = false;
+				continue;
+			}
+
+			// Collect user content (lines after the auto end marker)
+			if (afterAutoEnd && currentChapter) {
+				userLines.push(line);
+			}
+		}
+
+		// Save last chapter's user content (or trailing content)
+		if (userLines.length > 0) {
+			const trimmed = userLines.join('\n').trim();
+			if (trimmed) {
+				if (currentChapter) {
+					userContent.set(currentChapter, trimmed);
+				} else {
+					userContent.set('__trailing__', trimmed);
+				}
+			}
+		}
+
+		return userContent;
+	}
+
+	/**
+	 * Re-inserts preserved user content into newly generated content.
+	 * For each chapter, user content is placed after `%% kobo-highlights-end %%`.
+	 */
+	private reinsertUserContent(
+		generatedContent: string,
+		userContent: Map<string, string>,
+	): string {
+		const lines = generatedContent.split('\n');
+		const result: string[] = [];
+		let currentChapter = '';
+
+		for (const line of lines) {
+			if (line.match(/^##\s+/)) {
+				currentChapter = line.replace(/^##\s+/, '').trim();
+			}
+
+			result.push(line);
+
+			// After each chapter's auto-end marker, insert preserved user content
+			if (line.includes('kobo-highlights-end') && currentChapter) {
+				const preserved = userContent.get(currentChapter);
+				if (preserved) {
+					result.push('');
+					result.push(preserved);
+				}
+			}
+		}
+
+		// Append trailing user content (content not belonging to any chapter)
+		const trailing = userContent.get('__trailing__');
+		if (trailing) {
+			result.push('');
+			result.push(trailing);
+		}
+
+		return result.join('\n');
+	}
+}
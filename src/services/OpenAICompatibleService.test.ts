@@ -0,0 +1,130 @@
+import * as chai from "chai";
+import {
+	getChatCompletionsUrl,
+	OpenAICompatibleService,
+} from "./OpenAICompatibleService";
+
+describe("OpenAICompatibleService", async function () {
+	const originalFetch = globalThis.fetch;
+
+	afterEach(function () {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("getChatCompletionsUrl", async function () {
+		chai.expect(getChatCompletionsUrl("http://localhost:8080")).equal(
+			"http://localhost:8080/v1/chat/completions",
+		);
+		chai.expect(getChatCompletionsUrl("http://localhost:1234/v1/")).equal(
+			"http://localhost:1234/v1/chat/completions",
+		);
+	});
+
+	it("getDefinitions sends a chat completion request", async function () {
+		const requests: { url: string; init: RequestInit }[] = [];
+		globalThis.fetch = (async (url: string, init: RequestInit) => {
+			requests.push({ url, init });
+			return new Response(
+				JSON.stringify({
+					choices: [{ message: { content: " Lasting a short time. " } }],
+				}),
+			);
+		}) as typeof fetch;
+
+		const service = new OpenAICompatibleService({
+			baseUrl: "http://localhost:8080",
+			model: "local-model",
+			apiKey: "secret",
+			temperature: 0.2,
+			systemPrompt: "You are a dictionary.",
+		});
+		const definitions = await service.getDefinitions(["ephemeral"], "en");
+
+		chai.expect(Array.from(definitions)).to.deep.equal([
+			["ephemeral", { definition: "Lasting a short time." }],
+		]);
+		chai.expect(requests[0].url).equal(
+			"http://localhost:8080/v1/chat/completions",
+		);
+		chai.expect(
+			(requests[0].init.headers as Record<string, string>)["Authorization"],
+		).equal("Bearer secret");
+
+		const body = JSON.parse(requests[0].init.body as string);
+		chai.expect(body.model).equal("local-model");
+		chai.expect(body.temperature).equal(0.2);
+		chai.expect(body.messages[0]).to.deep.equal({
+			role: "system",
+			content: "You are a dictionary.",
+		});
+		chai.expect(body.messages[1].content).to.contain('"ephemeral"');
+	});
+
+	it("getDefinitions leaves out failed words", async function () {
+		globalThis.fetch = (async () =>
+			new Response("", { status: 500 })) as typeof fetch;
+
+		const service = new OpenAICompatibleService({
+			baseUrl: "http://localhost:8080",
+			model: "local-model",
+			queue: { retries: 0 },
+		});
+		const definitions = await service.getDefinitions(["ephemeral"], "en");
+
+		chai.expect(definitions.size).equal(0);
+	});
+
+	it("getDefinitions reads structured answers", async function () {
+		globalThis.fetch = (async () =>
+			new Response(
+				JSON.stringify({
+					choices: [
+						{
+							message: {
+								content:
+									'```json\n{"definition": "Gebäude zum Wohnen", "pos": "Nomen", "example": "Das Haus ist alt.", "translation": "house"}\n```',
+							},
+						},
+					],
+				}),
+			)) as typeof fetch;
+
+		const service = new OpenAICompatibleService({
+			baseUrl: "http://localhost:8080",
+			model: "local-model",
+		});
+		const definitions = await service.getDefinitions(["Haus"], "de", {
+			translationLanguage: "en",
+		});
+
+		chai.expect(definitions.get("Haus")).to.deep.equal({
+			definition: "Gebäude zum Wohnen",
+			translation: "house",
+			pos: "Nomen",
+			example: "Das Haus ist alt.",
+		});
+	});
+
+	it("getDefinitions sends the context sentence", async function () {
+		const bodies: string[] = [];
+		globalThis.fetch = (async (_url: string, init: RequestInit) => {
+			bodies.push(init.body as string);
+			return new Response(
+				JSON.stringify({ choices: [{ message: { content: "A river side." } }] }),
+			);
+		}) as typeof fetch;
+
+		const service = new OpenAICompatibleService({
+			baseUrl: "http://localhost:8080",
+			model: "local-model",
+		});
+		await service.getDefinitions(["bank"], "en", {
+			contexts: new Map([["bank", "She sat on the bank and waited."]]),
+		});
+
+		const body = JSON.parse(bodies[0]);
+		chai.expect(body.messages[0].content).to.contain(
+			'"She sat on the bank and waited."',
+		);
+	});
+});
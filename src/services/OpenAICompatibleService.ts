@@ -0,0 +1,136 @@
+import { Definition } from "../database/interfaces";
+import {
+	DefinitionProvider,
+	DefinitionRequest,
+	DefinitionPromptOptions,
+	getDefinitionPrompt,
+	parseDefinitionResponse,
+} from "./DefinitionProvider";
+import { RequestQueueOptions, runQueue } from "./RequestQueue";
+
+export interface OpenAICompatibleOptions {
+	// e.g. http://localhost:8080 or http://localhost:1234/v1
+	baseUrl: string;
+	model: string;
+	apiKey?: string;
+	temperature?: number;
+	systemPrompt?: string;
+	queue?: Partial<RequestQueueOptions>;
+}
+
+/**
+ * Endpoint of the chat completions API, whether or not the base URL already
+ * ends with the `/v1` prefix.
+ */
+export function getChatCompletionsUrl(baseUrl: string): string {
+	const base = baseUrl.trim().replace(/\/+$/, "");
+
+	return /\/v1$/.test(base)
+		? `${base}/chat/completions`
+		: `${base}/v1/chat/completions`;
+}
+
+/**
+ * Definitions from any server speaking the OpenAI `/v1/chat/completions`
+ * protocol: llama.cpp server, LM Studio, vLLM, or OpenAI itself.
+ */
+export class OpenAICompatibleService implements DefinitionProvider {
+	readonly name = "openai";
+	private options: OpenAICompatibleOptions;
+
+	constructor(options: OpenAICompatibleOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Asks the server for one definition. Throws when the request fails, so
+	 * the queue can retry it.
+	 */
+	async getVocabularyDefinition(
+		word: string,
+		language: string = "en",
+		signal?: AbortSignal,
+		options: DefinitionPromptOptions = {},
+	): Promise<Definition> {
+		const { baseUrl, model, apiKey, temperature, systemPrompt } =
+			this.options;
+
+		const messages = [
+			...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+			{
+				role: "user",
+				content: getDefinitionPrompt(word, language, options),
+			},
+		];
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+		if (apiKey) {
+			headers["Authorization"] = `Bearer ${apiKey}`;
+		}
+
+		const response = await fetch(getChatCompletionsUrl(baseUrl), {
+			method: "POST",
+			headers,
+			body: JSON.stringify({
+				model,
+				messages,
+				temperature,
+				stream: false,
+			}),
+			signal,
+		});
+
+		if (!response.ok) {
+			throw new Error(
+				`Chat completions API error for word "${word}": ${response.statusText}`,
+			);
+		}
+
+		const data = await response.json();
+		const definition = parseDefinitionResponse(
+			data.choices?.[0]?.message?.content ?? "",
+		);
+		if (!definition) {
+			throw new Error(`No definition returned for "${word}"`);
+		}
+
+		return definition;
+	}
+
+	async getDefinitions(
+		words: string[],
+		language: string,
+		request: DefinitionRequest = {},
+	): Promise<Map<string, Definition>> {
+		const definitions = new Map<string, Definition>();
+
+		console.log(
+			`Fetching definitions for ${words.length} vocabulary words from ${this.options.baseUrl}...`,
+		);
+		const results = await runQueue(
+			words,
+			(word, signal) =>
+				this.getVocabularyDefinition(
+					word,
+					language,
+					signal,
+					{
+						context: request.contexts?.get(word),
+						definitionLanguage: request.definitionLanguage,
+						translationLanguage: request.translationLanguage,
+					},
+				),
+			{ ...this.options.queue, ...request },
+		);
+
+		words.forEach((word, index) => {
+			const definition = results[index];
+			if (definition) {
+				definitions.set(word, definition);
+			}
+		});
+
+		return definitions;
+	}
+}
@@ -0,0 +1,88 @@
+import * as chai from "chai";
+import {
+	computeReadingStats,
+	getLocalDay,
+	mergeReadingSessions,
+	toReadingSession,
+} from "./ReadingStats";
+
+describe("ReadingStats", async function () {
+	// Midday, so that the local day is the same in every time zone
+	const session = (volumeId: string, start: string, minutes: number) => ({
+		id: `${volumeId}@${start}`,
+		volumeId,
+		start: new Date(start),
+		end: new Date(new Date(start).getTime() + minutes * 60000),
+		secondsRead: minutes * 60,
+		pagesTurned: minutes,
+	});
+	const books = [
+		{ volumeId: "a", title: "Book A", timeSpentReading: 600, eventCount: 0 },
+		{ volumeId: "b", title: "Book B", timeSpentReading: 36000, eventCount: 0 },
+		{ volumeId: "c", title: "Unread", timeSpentReading: 0, eventCount: 0 },
+	];
+	const sessions = [
+		session("a", "2023-12-31T12:00:00Z", 20),
+		session("a", "2024-01-02T12:00:00Z", 10),
+		session("b", "2024-01-02T13:00:00Z", 30),
+	];
+	const stamps = [
+		{ bookmarkId: "1", volumeId: "b", dateCreated: new Date("2024-01-05T12:00:00Z") },
+	];
+
+	it("getLocalDay", async function () {
+		chai.expect(getLocalDay(new Date(2024, 0, 2, 23, 59))).equal("2024-01-02");
+	});
+
+	it("computeReadingStats periods", async function () {
+		const stats = computeReadingStats(sessions, books, stamps);
+
+		chai.expect(stats.years.map((y) => [y.period, y.minutes, y.sessions])).to.deep.equal([
+			["2024", 40, 2],
+			["2023", 20, 1],
+		]);
+		chai.expect(stats.days.map((d) => d.period)).to.deep.equal([
+			"2024-01-05",
+			"2024-01-02",
+			"2023-12-31",
+		]);
+		chai.expect(stats.months[0]).to.deep.equal({
+			period: "2024-01",
+			minutes: 40,
+			pages: 40,
+			sessions: 2,
+			highlights: 1,
+			books: ["Book A", "Book B"],
+		});
+		chai.expect(stats.totals).to.deep.equal({
+			minutes: 60,
+			pages: 60,
+			sessions: 3,
+			highlights: 1,
+			books: ["Book A", "Book B"],
+		});
+	});
+
+	it("computeReadingStats books", async function () {
+		const stats = computeReadingStats(sessions, books, stamps);
+
+		chai.expect(
+			stats.books.map((b) => [b.title, b.minutes, b.sessions, b.days, b.highlights]),
+		).to.deep.equal([
+			// The Kobo total, sessions synced before are no longer in the database
+			["Book B", 600, 1, 1, 1],
+			// More in the sessions than in the Kobo total
+			["Book A", 30, 2, 2, 0],
+		]);
+	});
+
+	it("mergeReadingSessions keeps the purged sessions", async function () {
+		const stored = mergeReadingSessions([], sessions.slice(0, 2));
+		// The first session was purged from the device, a new one came in
+		const merged = mergeReadingSessions(stored, sessions.slice(1));
+
+		chai.expect(merged.map((s) => s.id)).to.deep.equal(sessions.map((s) => s.id));
+		chai.expect(merged[0].start).equal("2023-12-31T12:00:00.000Z");
+		chai.expect(merged.map(toReadingSession)).to.deep.equal(sessions);
+	});
+});
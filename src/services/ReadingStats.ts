@@ -0,0 +1,235 @@
+import {
+	BookmarkStamp,
+	BookReadingInfo,
+	ReadingSession,
+	StoredReadingSession,
+} from "../database/interfaces";
+
+export interface ReadingPeriod {
+	// "2023", "2023-01" or "2023-01-02", in local time
+	period: string;
+	minutes: number;
+	pages: number;
+	sessions: number;
+	highlights: number;
+	// Titles of the books read or highlighted in the period
+	books: string[];
+}
+
+export interface BookReadingStats {
+	title: string;
+	volumeId: string;
+	// The Kobo total when known, as sessions synced to Kobo are gone from
+	// the database
+	minutes: number;
+	pages: number;
+	sessions: number;
+	highlights: number;
+	// Number of days with a session
+	days: number;
+	firstRead?: Date;
+	lastRead?: Date;
+	finished?: Date;
+}
+
+export interface ReadingStats {
+	books: BookReadingStats[];
+	// Most recent first, only the ones with some reading or highlights
+	days: ReadingPeriod[];
+	months: ReadingPeriod[];
+	years: ReadingPeriod[];
+	totals: Omit<ReadingPeriod, "period">;
+}
+
+interface PeriodTotals {
+	seconds: number;
+	pages: number;
+	sessions: number;
+	highlights: number;
+	books: Set<string>;
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, "0");
+}
+
+/**
+ * Local day of a date as "YYYY-MM-DD", the day a reader would file it under.
+ */
+export function getLocalDay(date: Date): string {
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addToPeriods(
+	periods: Map<string, PeriodTotals>,
+	date: Date,
+	add: (_totals: PeriodTotals) => void,
+) {
+	const day = getLocalDay(date);
+	// "" holds the totals of all time
+	for (const period of ["", day.slice(0, 4), day.slice(0, 7), day]) {
+		let totals = periods.get(period);
+		if (!totals) {
+			totals = {
+				seconds: 0,
+				pages: 0,
+				sessions: 0,
+				highlights: 0,
+				books: new Set(),
+			};
+			periods.set(period, totals);
+		}
+		add(totals);
+	}
+}
+
+function toPeriod(
+	period: string,
+	totals: PeriodTotals = {
+		seconds: 0,
+		pages: 0,
+		sessions: 0,
+		highlights: 0,
+		books: new Set(),
+	},
+): ReadingPeriod {
+	return {
+		period,
+		minutes: Math.round(totals.seconds / 60),
+		pages: totals.pages,
+		sessions: totals.sessions,
+		highlights: totals.highlights,
+		books: Array.from(totals.books).sort(),
+	};
+}
+
+/**
+ * Adds the sessions read from the device to the ones kept from previous
+ * imports, as the Kobo purges its analytics events once they are synced.
+ * Sessions are merged by id, oldest first.
+ */
+export function mergeReadingSessions(
+	stored: StoredReadingSession[],
+	sessions: ReadingSession[],
+): StoredReadingSession[] {
+	const merged = new Map(stored.map((session) => [session.id, session]));
+	for (const session of sessions) {
+		merged.set(session.id, {
+			...session,
+			start: session.start.toISOString(),
+			end: session.end.toISOString(),
+		});
+	}
+
+	return Array.from(merged.values()).sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export function toReadingSession(session: StoredReadingSession): ReadingSession {
+	return {
+		...session,
+		start: new Date(session.start),
+		end: new Date(session.end),
+	};
+}
+
+/**
+ * Reading time, pages and highlights per book and per day, month and year.
+ * A session counts towards the day it started on.
+ */
+export function computeReadingStats(
+	sessions: ReadingSession[],
+	books: BookReadingInfo[],
+	stamps: BookmarkStamp[],
+): ReadingStats {
+	const titles = new Map(books.map((book) => [book.volumeId, book.title]));
+	const periods = new Map<string, PeriodTotals>();
+	const bookStats = new Map<string, BookReadingStats & { daySet: Set<string> }>();
+
+	const getBookStats = (volumeId: string, title: string) => {
+		let stats = bookStats.get(volumeId);
+		if (!stats) {
+			stats = {
+				title,
+				volumeId,
+				minutes: 0,
+				pages: 0,
+				sessions: 0,
+				highlights: 0,
+				days: 0,
+				daySet: new Set(),
+			};
+			bookStats.set(volumeId, stats);
+		}
+
+		return stats;
+	};
+
+	for (const book of books) {
+		const stats = getBookStats(book.volumeId, book.title);
+		stats.minutes = Math.round(book.timeSpentReading / 60);
+		stats.firstRead = book.firstTimeReading;
+		stats.lastRead = book.lastTimeStartedReading;
+		stats.finished = book.lastTimeFinishedReading;
+	}
+
+	const sessionSeconds = new Map<string, number>();
+	for (const session of sessions) {
+		const title = titles.get(session.volumeId) ?? session.title ?? session.volumeId;
+		const stats = getBookStats(session.volumeId, title);
+		stats.sessions++;
+		stats.pages += session.pagesTurned;
+		stats.daySet.add(getLocalDay(session.start));
+		if (!stats.firstRead || session.start < stats.firstRead) {
+			stats.firstRead = session.start;
+		}
+		if (!stats.lastRead || session.start > stats.lastRead) {
+			stats.lastRead = session.start;
+		}
+		sessionSeconds.set(
+			session.volumeId,
+			(sessionSeconds.get(session.volumeId) ?? 0) + session.secondsRead,
+		);
+
+		addToPeriods(periods, session.start, (totals) => {
+			totals.seconds += session.secondsRead;
+			totals.pages += session.pagesTurned;
+			totals.sessions++;
+			totals.books.add(title);
+		});
+	}
+
+	for (const stamp of stamps) {
+		const title = titles.get(stamp.volumeId) ?? stamp.volumeId;
+		getBookStats(stamp.volumeId, title).highlights++;
+
+		addToPeriods(periods, stamp.dateCreated, (totals) => {
+			totals.highlights++;
+			totals.books.add(title);
+		});
+	}
+
+	const byPeriod = (length: number) =>
+		Array.from(periods)
+			.filter(([period]) => period.length == length)
+			.map(([period, totals]) => toPeriod(period, totals))
+			.sort((a, b) => b.period.localeCompare(a.period));
+	const { period: _period, ...totals } = toPeriod("", periods.get(""));
+
+	return {
+		books: Array.from(bookStats.values(), ({ daySet, ...stats }) => ({
+			...stats,
+			// Sessions still on the device can add up to more than the total
+			minutes: Math.max(
+				stats.minutes,
+				Math.round((sessionSeconds.get(stats.volumeId) ?? 0) / 60),
+			),
+			days: daySet.size,
+		}))
+			.filter((stats) => stats.minutes > 0 || stats.highlights > 0)
+			.sort((a, b) => b.minutes - a.minutes || a.title.localeCompare(b.title)),
+		days: byPeriod(10),
+		months: byPeriod(7),
+		years: byPeriod(4),
+		totals,
+	};
+}
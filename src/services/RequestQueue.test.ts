@@ -0,0 +1,106 @@
+import * as chai from "chai";
+import {
+	DEFAULT_REQUEST_QUEUE_OPTIONS,
+	getRequestQueueOptions,
+	runQueue,
+} from "./RequestQueue";
+
+describe("RequestQueue", async function () {
+	it("runQueue never runs more than concurrency requests", async function () {
+		let running = 0;
+		let maxRunning = 0;
+		const progress: number[] = [];
+
+		const results = await runQueue(
+			[1, 2, 3, 4, 5],
+			async (n) => {
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				running--;
+				return n * 2;
+			},
+			{ concurrency: 2, onProgress: (done) => progress.push(done) },
+		);
+
+		chai.expect(results).to.deep.equal([2, 4, 6, 8, 10]);
+		chai.expect(maxRunning).equal(2);
+		chai.expect(progress).to.deep.equal([0, 1, 2, 3, 4, 5]);
+	});
+
+	it("runQueue retries failed requests", async function () {
+		const attempts = new Map<string, number>();
+
+		const results = await runQueue(
+			["flaky", "broken"],
+			async (word) => {
+				const attempt = (attempts.get(word) ?? 0) + 1;
+				attempts.set(word, attempt);
+				if (word == "broken" || attempt < 2) {
+					throw new Error(`${word} failed`);
+				}
+				return word;
+			},
+			{ retries: 2, backoff: 1 },
+		);
+
+		chai.expect(results).to.deep.equal(["flaky", undefined]);
+		chai.expect(attempts.get("flaky")).equal(2);
+		chai.expect(attempts.get("broken")).equal(3);
+	});
+
+	it("runQueue aborts requests that time out", async function () {
+		const results = await runQueue(
+			["slow"],
+			(_word, signal) =>
+				new Promise<string>((_resolve, reject) => {
+					signal.addEventListener("abort", () =>
+						reject(new Error("aborted")),
+					);
+				}),
+			{ timeout: 5, retries: 1, backoff: 1 },
+		);
+
+		chai.expect(results).to.deep.equal([undefined]);
+	});
+
+	it("runQueue keeps finished results when cancelled", async function () {
+		const controller = new AbortController();
+		const started: number[] = [];
+
+		const results = await runQueue(
+			[1, 2, 3, 4],
+			(n, signal) =>
+				new Promise<number>((resolve, reject) => {
+					started.push(n);
+					if (n == 1) {
+						resolve(n);
+						return;
+					}
+					// The second request hangs until the queue is cancelled
+					controller.abort();
+					signal.addEventListener("abort", () =>
+						reject(new Error("aborted")),
+					);
+					if (signal.aborted) {
+						reject(new Error("aborted"));
+					}
+				}),
+			{ concurrency: 1, signal: controller.signal },
+		);
+
+		chai.expect(results).to.deep.equal([1, undefined, undefined, undefined]);
+		chai.expect(started).to.deep.equal([1, 2]);
+	});
+
+	it("getRequestQueueOptions falls back to the defaults", async function () {
+		chai.expect(
+			getRequestQueueOptions({
+				concurrency: undefined,
+				timeout: NaN,
+				retries: -1,
+				backoff: 0,
+			}),
+		).to.deep.equal({ ...DEFAULT_REQUEST_QUEUE_OPTIONS, backoff: 0 });
+	});
+});
@@ -0,0 +1,131 @@
+export interface RequestQueueOptions {
+	// Requests running at the same time
+	concurrency: number;
+	// Per attempt, in milliseconds. 0 disables the timeout
+	timeout: number;
+	// Attempts after the first failure
+	retries: number;
+	// Delay before the first retry, doubled on each following one
+	backoff: number;
+	// Stops waiting requests and aborts running ones
+	signal?: AbortSignal;
+	onProgress?: (_done: number, _total: number) => void;
+}
+
+export const DEFAULT_REQUEST_QUEUE_OPTIONS: RequestQueueOptions = {
+	concurrency: 2,
+	timeout: 60_000,
+	retries: 2,
+	backoff: 1_000,
+};
+
+const NUMBER_OPTIONS = ["concurrency", "timeout", "retries", "backoff"] as const;
+
+/**
+ * The options with the defaults filled in, also for options left undefined
+ * and numbers that are not finite or negative, e.g. an empty setting.
+ */
+export function getRequestQueueOptions(
+	options: Partial<RequestQueueOptions>,
+): RequestQueueOptions {
+	const resolved: RequestQueueOptions = { ...DEFAULT_REQUEST_QUEUE_OPTIONS };
+	for (const key of NUMBER_OPTIONS) {
+		const value = options[key];
+		if (value != undefined && Number.isFinite(value) && value >= 0) {
+			resolved[key] = value;
+		}
+	}
+
+	return {
+		...resolved,
+		...(options.signal ? { signal: options.signal } : {}),
+		...(options.onProgress ? { onProgress: options.onProgress } : {}),
+	};
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timer = setTimeout(done, ms);
+		function done() {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		}
+		signal?.addEventListener("abort", done);
+	});
+}
+
+async function attempt<T, R>(
+	item: T,
+	worker: (_item: T, _signal: AbortSignal) => Promise<R>,
+	timeout: number,
+	signal?: AbortSignal,
+): Promise<R> {
+	const controller = new AbortController();
+	const abort = () => controller.abort();
+	signal?.addEventListener("abort", abort);
+	const timer =
+		timeout > 0 ? setTimeout(abort, timeout) : undefined;
+
+	try {
+		return await worker(item, controller.signal);
+	} finally {
+		clearTimeout(timer);
+		signal?.removeEventListener("abort", abort);
+	}
+}
+
+/**
+ * Runs `worker` on every item with at most `concurrency` of them at once,
+ * retrying failed or timed out attempts with exponential backoff. Items that
+ * still fail, or were not done when `signal` aborted, are `undefined` in the
+ * result, so what was already fetched is kept.
+ */
+export async function runQueue<T, R>(
+	items: T[],
+	worker: (_item: T, _signal: AbortSignal) => Promise<R>,
+	options: Partial<RequestQueueOptions> = {},
+): Promise<(R | undefined)[]> {
+	const { concurrency, timeout, retries, backoff, signal, onProgress } =
+		getRequestQueueOptions(options);
+	const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+
+	let next = 0;
+	let done = 0;
+	onProgress?.(done, items.length);
+
+	const run = async () => {
+		while (next < items.length && !signal?.aborted) {
+			const index = next++;
+
+			for (let i = 0; i <= retries && !signal?.aborted; i++) {
+				if (i > 0) {
+					await sleep(backoff * 2 ** (i - 1), signal);
+				}
+
+				try {
+					results[index] = await attempt(
+						items[index],
+						worker,
+						timeout,
+						signal,
+					);
+					break;
+				} catch (error) {
+					console.error(
+						`Request ${index + 1}/${items.length} failed (attempt ${i + 1}/${retries + 1}):`,
+						error,
+					);
+				}
+			}
+
+			onProgress?.(++done, items.length);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.max(1, concurrency) }, () => run()),
+	);
+
+	return results;
+}
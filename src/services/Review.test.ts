@@ -0,0 +1,125 @@
+import * as chai from "chai";
+import { ImportWatermark, ReviewState } from "../database/interfaces";
+import { DEFAULT_HIGHLIGHT_TYPES } from "../template/highlightTypes";
+import {
+	collectReviewCards,
+	formatInterval,
+	getDueCards,
+	scheduleReview,
+} from "./Review";
+
+describe("Review", async function () {
+	const now = new Date("2024-01-01T12:00:00Z");
+	const day = 24 * 60 * 60 * 1000;
+
+	function bookmark(bookmarkId: string, color: number, deleted = false) {
+		return {
+			bookmarkId,
+			contentId: "c1",
+			chapter: "Chapter 1",
+			text: `word ${bookmarkId}`,
+			color,
+			dateCreated: now.toISOString(),
+			deletedOnDevice: deleted,
+		};
+	}
+
+	it("scheduleReview grows the interval of remembered words", async function () {
+		const first = scheduleReview(undefined, "good", now);
+		const second = scheduleReview(first, "good", now);
+		const third = scheduleReview(second, "good", now);
+
+		chai.expect([first.interval, second.interval, third.interval]).to.deep.equal(
+			[1, 6, 15],
+		);
+		chai.expect(third.due).equal(new Date(now.getTime() + 15 * day).toISOString());
+		chai.expect(scheduleReview(second, "easy", now).interval).equal(20);
+		chai.expect(scheduleReview(second, "hard", now).interval).equal(7);
+	});
+
+	it("scheduleReview relearns forgotten words", async function () {
+		const learned = scheduleReview(scheduleReview(undefined, "good", now), "good", now);
+		const forgotten = scheduleReview(learned, "again", now);
+
+		chai.expect(forgotten).to.include({
+			interval: 0,
+			repetitions: 0,
+			lapses: 1,
+			ease: 2.3,
+		});
+		chai.expect(formatInterval(forgotten.due, now)).equal("10m");
+		chai.expect(scheduleReview(forgotten, "good", now).interval).equal(1);
+	});
+
+	it("formatInterval", async function () {
+		const after = (days: number) => new Date(now.getTime() + days * day).toISOString();
+
+		chai.expect(formatInterval(after(6), now)).equal("6d");
+		chai.expect(formatInterval(after(90), now)).equal("3mo");
+		chai.expect(formatInterval(after(730), now)).equal("2.0y");
+	});
+
+	it("collectReviewCards", async function () {
+		const watermarks: Record<string, ImportWatermark> = {
+			device1: {
+				books: {
+					"Book 1": {
+						bookmarks: [
+							bookmark("1", 1),
+							bookmark("2", 0),
+							bookmark("3", 1, true),
+						],
+					},
+				},
+			},
+			device2: {
+				books: { "Book 1": { bookmarks: [bookmark("1", 1)] } },
+			},
+		};
+
+		chai.expect(
+			collectReviewCards(watermarks, DEFAULT_HIGHLIGHT_TYPES),
+		).to.deep.equal([
+			{
+				bookmarkId: "1",
+				word: "word 1",
+				bookTitle: "Book 1",
+				chapter: "Chapter 1",
+				context: undefined,
+			},
+		]);
+	});
+
+	it("getDueCards puts due cards first and limits new ones", async function () {
+		const card = (bookmarkId: string) => ({
+			bookmarkId,
+			word: bookmarkId,
+			bookTitle: "Book",
+			chapter: "Chapter",
+		});
+		const state = (due: Date): ReviewState => ({
+			due: due.toISOString(),
+			interval: 1,
+			ease: 2.5,
+			repetitions: 1,
+			lapses: 0,
+		});
+
+		const due = getDueCards(
+			[card("new1"), card("later"), card("due2"), card("due1"), card("new2")],
+			{
+				later: state(new Date(now.getTime() + day)),
+				due1: state(new Date(now.getTime() - 2 * day)),
+				due2: state(new Date(now.getTime() - day)),
+			},
+			1,
+			now,
+		);
+
+		chai.expect(due.map((c) => c.bookmarkId)).to.deep.equal([
+			"due1",
+			"due2",
+			"new1",
+		]);
+	});
+});
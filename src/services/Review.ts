@@ -0,0 +1,169 @@
+import {
+	HighlightType,
+	ImportWatermark,
+	ReviewState,
+} from "../database/interfaces";
+import { getHighlightType } from "../template/highlightTypes";
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export interface ReviewCard {
+	bookmarkId: string;
+	word: string;
+	bookTitle: string;
+	chapter: string;
+	context?: string;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+// Forgotten words come back within the same session
+const RELEARN_DELAY = 10 * MINUTE;
+const MIN_EASE = 1.3;
+
+/**
+ * Next review of a word with the SM-2 algorithm as used by Anki: the
+ * interval grows by the ease of the word, which goes down each time it is
+ * hard or forgotten and up when it is easy.
+ */
+export function scheduleReview(
+	state: ReviewState | undefined,
+	grade: ReviewGrade,
+	now: Date = new Date(),
+): ReviewState {
+	const { interval, ease, repetitions, lapses } = state ?? {
+		interval: 0,
+		ease: 2.5,
+		repetitions: 0,
+		lapses: 0,
+	};
+
+	let next: Pick<ReviewState, "interval" | "ease">;
+	switch (grade) {
+		case "again":
+			return {
+				interval: 0,
+				ease: Math.max(MIN_EASE, ease - 0.2),
+				repetitions: 0,
+				lapses: lapses + 1,
+				due: new Date(now.getTime() + RELEARN_DELAY).toISOString(),
+				lastReview: now.toISOString(),
+			};
+		case "hard":
+			next = {
+				interval:
+					repetitions == 0
+						? 1
+						: Math.max(interval + 1, Math.round(interval * 1.2)),
+				ease: Math.max(MIN_EASE, ease - 0.15),
+			};
+			break;
+		case "good":
+			next = {
+				interval:
+					repetitions == 0
+						? 1
+						: repetitions == 1
+							? 6
+							: Math.max(interval + 1, Math.round(interval * ease)),
+				ease,
+			};
+			break;
+		case "easy":
+			next = {
+				interval:
+					repetitions == 0
+						? 4
+						: Math.max(interval + 2, Math.round(interval * ease * 1.3)),
+				ease: ease + 0.15,
+			};
+			break;
+	}
+
+	return {
+		...next,
+		repetitions: repetitions + 1,
+		lapses,
+		due: new Date(now.getTime() + next.interval * DAY).toISOString(),
+		lastReview: now.toISOString(),
+	};
+}
+
+/**
+ * Time until the next review, e.g. "10m", "6d" or "3mo", for the grade
+ * buttons.
+ */
+export function formatInterval(due: string, now: Date = new Date()): string {
+	const delay = new Date(due).getTime() - now.getTime();
+	if (delay < DAY) {
+		return `${Math.max(1, Math.round(delay / MINUTE))}m`;
+	}
+
+	const days = Math.round(delay / DAY);
+	if (days < 31) {
+		return `${days}d`;
+	}
+
+	return days < 365 ? `${Math.round(days / 30)}mo` : `${(days / 365).toFixed(1)}y`;
+}
+
+/**
+ * Vocabulary of every imported book, from the import watermarks of all
+ * devices. Highlights deleted on the device are left out.
+ */
+export function collectReviewCards(
+	watermarks: Record<string, ImportWatermark>,
+	highlightTypes: HighlightType[],
+): ReviewCard[] {
+	const cards = new Map<string, ReviewCard>();
+
+	for (const watermark of Object.values(watermarks)) {
+		for (const [bookTitle, book] of Object.entries(watermark.books)) {
+			for (const bookmark of book.bookmarks) {
+				if (
+					cards.has(bookmark.bookmarkId) ||
+					bookmark.deletedOnDevice ||
+					(bookmark.kind && bookmark.kind != "highlight") ||
+					!getHighlightType(bookmark.color, highlightTypes).vocabulary
+				) {
+					continue;
+				}
+
+				cards.set(bookmark.bookmarkId, {
+					bookmarkId: bookmark.bookmarkId,
+					word: bookmark.text,
+					bookTitle,
+					chapter: bookmark.chapter,
+					context: bookmark.context,
+				});
+			}
+		}
+	}
+
+	return Array.from(cards.values());
+}
+
+/**
+ * Cards to review now: the ones due, most overdue first, then at most
+ * `newCards` never reviewed ones.
+ */
+export function getDueCards(
+	cards: ReviewCard[],
+	states: Record<string, ReviewState>,
+	newCards: number,
+	now: Date = new Date(),
+): ReviewCard[] {
+	const due = cards
+		.filter((card) => {
+			const state = states[card.bookmarkId];
+			return state && new Date(state.due) <= now;
+		})
+		.sort((a, b) =>
+			states[a.bookmarkId].due.localeCompare(states[b.bookmarkId].due),
+		);
+	const unseen = cards
+		.filter((card) => !states[card.bookmarkId])
+		.slice(0, newCards);
+
+	return [...due, ...unseen];
+}
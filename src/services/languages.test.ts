@@ -0,0 +1,66 @@
+import * as chai from "chai";
+import { getDefinitionPrompt } from "./DefinitionProvider";
+import {
+	detectLanguage,
+	getLanguageInfo,
+	normalizeLanguageCode,
+} from "./languages";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+describe("languages", async function () {
+	const samples: Record<string, string> = {
+		en: "It was the best of times and the worst of times, and nothing that he was hoping for came to pass in the end.",
+		fr: "Les enfants sont partis de la maison et ils ne savaient pas que le repas était prêt depuis longtemps.",
+		es: "Los niños salieron de la casa y no sabían que la comida estaba lista desde hacía mucho tiempo.",
+		de: "Die Kinder sind aus dem Haus gegangen und wussten nicht, dass das Essen schon lange fertig war.",
+		it: "I bambini sono usciti di casa e non sapevano che il pranzo era pronto da molto tempo per tutti loro.",
+		pt: "As crianças saíram de casa e não sabiam que o almoço estava pronto há muito tempo para toda a família.",
+		nl: "De kinderen zijn het huis uit gegaan en wisten niet dat het eten al lang klaar stond voor hen.",
+	};
+
+	for (const [language, text] of Object.entries(samples)) {
+		it(`detectLanguage ${language}`, async function () {
+			chai.expect(detectLanguage([text])).equal(language);
+		});
+	}
+
+	it("detectLanguage falls back to English on too little text", async function () {
+		chai.expect(detectLanguage(["chat"])).equal("en");
+	});
+
+	it("normalizeLanguageCode", async function () {
+		chai.expect(normalizeLanguageCode("fr-FR")).equal("fr");
+		chai.expect(normalizeLanguageCode("en_US")).equal("en");
+		chai.expect(normalizeLanguageCode("ger")).equal("de");
+		chai.expect(normalizeLanguageCode("")).to.be.undefined;
+		chai.expect(normalizeLanguageCode(undefined)).to.be.undefined;
+	});
+
+	it("getLanguageInfo falls back to English", async function () {
+		chai.expect(getLanguageInfo("de").deck).equal("Wortschatz");
+		chai.expect(getLanguageInfo("ja").deck).equal("Vocabulary");
+	});
+
+	it("getDefinitionPrompt is localized", async function () {
+		chai.expect(getDefinitionPrompt("Haus", "de")).to.contain(
+			"auf Deutsch",
+		);
+		chai.expect(
+			getDefinitionPrompt("banco", "es", {
+				context: "Se sentó en el banco.",
+			}),
+		).to.contain("«Se sentó en el banco.»");
+	});
+
+	it("getDefinitionPrompt in another language than the book", async function () {
+		const prompt = getDefinitionPrompt("Haus", "de", {
+			definitionLanguage: "fr",
+			translationLanguage: "en",
+		});
+
+		chai.expect(prompt).to.contain("en français");
+		chai.expect(prompt).to.contain("Le mot est en allemand.");
+		chai.expect(prompt).to.contain('"translation": "traduction en anglais"');
+	});
+});
@@ -0,0 +1,208 @@
+export interface LanguageInfo {
+	// English name, used in logs and settings
+	name: string;
+	// Name of the flashcard deck in the default template
+	deck: string;
+	// Instruction to define a word, in that language
+	definitionPrompt: (_word: string) => string;
+	// Added to the instruction when the sentence of the highlight is known
+	contextPrompt: (_context: string) => string;
+	// Added when the word is from a book in another language
+	sourcePrompt: (_languageName: string) => string;
+	// Asks for the JSON answer, with a translation when a language is given
+	formatPrompt: (_translationLanguageName?: string) => string;
+	// Most frequent character trigrams, most frequent first ("_" is a space)
+	trigrams: string[];
+}
+
+export const DEFAULT_LANGUAGE = "en";
+
+export const LANGUAGES: Record<string, LanguageInfo> = {
+	en: {
+		name: "English",
+		deck: "Vocabulary",
+		definitionPrompt: (word) =>
+			`Provide only the definition of "${word}". Maximum 2 short sentences. IMPORTANT: NEVER repeat the word "${word}" in your response. Start directly with the definition without mentioning the word.`,
+		contextPrompt: (context) =>
+			`The word is used in this sentence: "${context}". Give the sense used in that sentence.`,
+		sourcePrompt: (languageName) =>
+			`The word is in ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Answer only with this JSON: {"definition": "...", "pos": "part of speech", "example": "a short sentence using the word"${translation ? `, "translation": "translation in ${translation}"` : ""}}`,
+		trigrams: ["_th", "the", "he_", "_an", "nd_", "and", "_of", "of_", "ing", "ng_", "_to", "to_", "ed_", "_in", "ion", "er_", "is_", "at_", "tha", "hat", "_wa", "was", "re_", "on_", "_he"],
+	},
+	fr: {
+		name: "French",
+		deck: "Vocabulaire",
+		definitionPrompt: (word) =>
+			`Donne uniquement la définition du mot "${word}" en français. Maximum 2 phrases courtes. IMPORTANT : Ne répète JAMAIS le mot "${word}" dans ta réponse. Commence directement par la définition sans mentionner le mot.`,
+		contextPrompt: (context) =>
+			`Le mot est employé dans cette phrase : « ${context} ». Donne le sens employé dans cette phrase.`,
+		sourcePrompt: (languageName) =>
+			`Le mot est en ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Réponds uniquement avec ce JSON : {"definition": "...", "pos": "nature grammaticale", "example": "une courte phrase employant le mot"${translation ? `, "translation": "traduction en ${translation}"` : ""}}`,
+		trigrams: ["es_", "_de", "de_", "le_", "_le", "ent", "_la", "la_", "re_", "_qu", "que", "ue_", "les", "_et", "et_", "ait", "_pa", "ion", "_un", "des", "_l'", "men", "ne_", "our", "ais"],
+	},
+	es: {
+		name: "Spanish",
+		deck: "Vocabulario",
+		definitionPrompt: (word) =>
+			`Da solo la definición de la palabra "${word}" en español. Máximo 2 frases cortas. IMPORTANTE: NUNCA repitas la palabra "${word}" en tu respuesta. Empieza directamente con la definición sin mencionar la palabra.`,
+		contextPrompt: (context) =>
+			`La palabra se usa en esta frase: «${context}». Da el sentido que tiene en esa frase.`,
+		sourcePrompt: (languageName) =>
+			`La palabra está en ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Responde solo con este JSON: {"definition": "...", "pos": "categoría gramatical", "example": "una frase corta que use la palabra"${translation ? `, "translation": "traducción al ${translation}"` : ""}}`,
+		trigrams: ["_de", "de_", "os_", "_la", "la_", "el_", "_el", "_qu", "que", "ue_", "en_", "_en", "as_", "es_", "_lo", "los", "_co", "ado", "_y_", "do_", "_se", "ent", "_su", "ara", "ció"],
+	},
+	de: {
+		name: "German",
+		deck: "Wortschatz",
+		definitionPrompt: (word) =>
+			`Gib nur die Definition des Wortes "${word}" auf Deutsch. Höchstens 2 kurze Sätze. WICHTIG: Wiederhole NIEMALS das Wort "${word}" in deiner Antwort. Beginne direkt mit der Definition, ohne das Wort zu nennen.`,
+		contextPrompt: (context) =>
+			`Das Wort wird in diesem Satz verwendet: „${context}“. Gib die Bedeutung an, die es in diesem Satz hat.`,
+		sourcePrompt: (languageName) =>
+			`Das Wort ist auf ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Antworte nur mit diesem JSON: {"definition": "...", "pos": "Wortart", "example": "ein kurzer Satz mit dem Wort"${translation ? `, "translation": "Übersetzung auf ${translation}"` : ""}}`,
+		trigrams: ["en_", "er_", "ch_", "ich", "ein", "_de", "der", "die", "_di", "ie_", "sch", "cht", "und", "_un", "nd_", "_ei", "in_", "te_", "den", "_da", "ung", "gen", "ine", "das", "ber"],
+	},
+	it: {
+		name: "Italian",
+		deck: "Vocabolario",
+		definitionPrompt: (word) =>
+			`Dai solo la definizione della parola "${word}" in italiano. Massimo 2 frasi brevi. IMPORTANTE: NON ripetere MAI la parola "${word}" nella tua risposta. Inizia direttamente con la definizione senza menzionare la parola.`,
+		contextPrompt: (context) =>
+			`La parola è usata in questa frase: «${context}». Dai il senso che ha in questa frase.`,
+		sourcePrompt: (languageName) =>
+			`La parola è in ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Rispondi solo con questo JSON: {"definition": "...", "pos": "categoria grammaticale", "example": "una frase breve che usa la parola"${translation ? `, "translation": "traduzione in ${translation}"` : ""}}`,
+		trigrams: ["_di", "di_", "la_", "_la", "che", "_ch", "he_", "re_", "to_", "_il", "il_", "_co", "ell", "lla", "del", "_de", "no_", "one", "zio", "are", "_pe", "per", "nte", "_un", "ion"],
+	},
+	pt: {
+		name: "Portuguese",
+		deck: "Vocabulário",
+		definitionPrompt: (word) =>
+			`Dê apenas a definição da palavra "${word}" em português. No máximo 2 frases curtas. IMPORTANTE: NUNCA repita a palavra "${word}" na sua resposta. Comece diretamente com a definição sem mencionar a palavra.`,
+		contextPrompt: (context) =>
+			`A palavra é usada nesta frase: «${context}». Dê o sentido usado nessa frase.`,
+		sourcePrompt: (languageName) =>
+			`A palavra está em ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Responda apenas com este JSON: {"definition": "...", "pos": "classe gramatical", "example": "uma frase curta que use a palavra"${translation ? `, "translation": "tradução para ${translation}"` : ""}}`,
+		trigrams: ["_de", "de_", "os_", "_qu", "que", "ue_", "_a_", "do_", "da_", "ão_", "_co", "ent", "es_", "as_", "em_", "_se", "_o_", "com", "nte", "ção", "_pa", "ra_", "_e_", "uma", "não"],
+	},
+	nl: {
+		name: "Dutch",
+		deck: "Woordenschat",
+		definitionPrompt: (word) =>
+			`Geef alleen de definitie van het woord "${word}" in het Nederlands. Maximaal 2 korte zinnen. BELANGRIJK: Herhaal NOOIT het woord "${word}" in je antwoord. Begin direct met de definitie zonder het woord te noemen.`,
+		contextPrompt: (context) =>
+			`Het woord wordt gebruikt in deze zin: "${context}". Geef de betekenis die het in deze zin heeft.`,
+		sourcePrompt: (languageName) =>
+			`Het woord is in het ${languageName}.`,
+		formatPrompt: (translation) =>
+			`Antwoord alleen met deze JSON: {"definition": "...", "pos": "woordsoort", "example": "een korte zin met het woord"${translation ? `, "translation": "vertaling in het ${translation}"` : ""}}`,
+		trigrams: ["en_", "de_", "_de", "an_", "et_", "van", "_va", "het", "_he", "er_", "een", "_ee", "ij_", "_ge", "ver", "aar", "oor", "den", "te_", "_zi", "_in", "ijk", "sch", "nde", "cht"],
+	},
+};
+
+// ISO 639-2 codes found in some epub metadata
+const THREE_LETTER_CODES: Record<string, string> = {
+	eng: "en",
+	fra: "fr",
+	fre: "fr",
+	spa: "es",
+	deu: "de",
+	ger: "de",
+	ita: "it",
+	por: "pt",
+	nld: "nl",
+	dut: "nl",
+};
+
+export function getLanguageInfo(language: string): LanguageInfo {
+	return LANGUAGES[language] ?? LANGUAGES[DEFAULT_LANGUAGE];
+}
+
+/**
+ * Name of a language written in another one, e.g. "allemand" for "de" in
+ * French, falling back to the English name.
+ */
+export function getLanguageName(language: string, inLanguage: string): string {
+	try {
+		const name = new Intl.DisplayNames([inLanguage], { type: "language" }).of(
+			language,
+		);
+		if (name && name != language) {
+			return name;
+		}
+	} catch {
+		// Unknown code or no Intl data
+	}
+
+	return getLanguageInfo(language).name;
+}
+
+/**
+ * Two letter code of a language as stored by the Kobo ("fr-FR", "en_US",
+ * "eng"...), or undefined when it is missing or unknown.
+ */
+export function normalizeLanguageCode(code?: string): string | undefined {
+	const primary = code?.trim().toLowerCase().split(/[-_]/)[0];
+	if (!primary) {
+		return undefined;
+	}
+
+	const language = THREE_LETTER_CODES[primary] ?? primary;
+
+	return /^[a-z]{2}$/.test(language) ? language : undefined;
+}
+
+function countTrigrams(text: string): Map<string, number> {
+	const counts = new Map<string, number>();
+
+	const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+	for (const word of words) {
+		const padded = `_${word}_`;
+		for (let i = 0; i + 3 <= padded.length; i++) {
+			const trigram = padded.slice(i, i + 3);
+			counts.set(trigram, (counts.get(trigram) ?? 0) + 1);
+		}
+	}
+
+	return counts;
+}
+
+/**
+ * Guesses the language of some text from its character trigrams, each
+ * language scoring the frequency of its own most common trigrams. Falls back
+ * to English when there is too little text to tell.
+ */
+export function detectLanguage(texts: string[]): string {
+	const counts = countTrigrams(texts.join(" "));
+	const total = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+	if (total < 10) {
+		return DEFAULT_LANGUAGE;
+	}
+
+	let best = DEFAULT_LANGUAGE;
+	let bestScore = 0;
+	for (const [language, info] of Object.entries(LANGUAGES)) {
+		const score = info.trigrams.reduce(
+			(sum, trigram, rank) =>
+				sum + (counts.get(trigram) ?? 0) * (info.trigrams.length - rank),
+			0,
+		);
+		if (score > bestScore) {
+			best = language;
+			bestScore = score;
+		}
+	}
+
+	return best;
+}
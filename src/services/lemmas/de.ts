@@ -0,0 +1,38 @@
+export const de = `
+sein bin bist ist sind seid war warst waren wart gewesen sei seien wäre wären
+haben habe hast hat habt hatte hattest hatten hattet gehabt hätte hätten
+werden werde wirst wird werdet wurde wurdest wurden wurdet geworden würde würden
+gehen gehe gehst geht ging gingst gingen gegangen
+kommen komme kommst kommt kam kamst kamen gekommen käme
+sehen sehe siehst sieht sah sahen gesehen
+geben gebe gibst gibt gab gaben gegeben
+nehmen nehme nimmst nimmt nahm nahmen genommen
+wissen weiß weißt wisst wusste wussten gewusst
+können kann kannst könnt konnte konnten gekonnt könnte könnten
+müssen muss musst müsst musste mussten gemusst müsste
+wollen will willst wollt wollte wollten gewollt
+sollen soll sollst sollt sollte sollten
+dürfen darf darfst dürft durfte durften dürfte
+mögen mag magst mögt mochte mochten gemocht möchte möchten
+tun tue tust tut tat taten getan
+finden finde findest findet fand fanden gefunden
+denken denke denkst denkt dachte dachten gedacht
+bringen bringe bringst bringt brachte brachten gebracht
+stehen stehe stehst steht stand standen gestanden
+liegen liege liegst liegt lag lagen gelegen
+sprechen spreche sprichst spricht sprach sprachen gesprochen
+lesen lese liest las lasen gelesen
+schreiben schreibe schreibst schreibt schrieb schrieben geschrieben
+essen esse isst esst aß aßen gegessen
+Kind Kinder Kindern
+Mann Männer Männern
+Frau Frauen
+Haus Häuser Häusern
+Buch Bücher Büchern
+Hand Hände Händen
+Auge Augen
+Tag Tage Tagen
+Jahr Jahre Jahren
+Mutter Mütter
+Vater Väter
+`;
@@ -0,0 +1,65 @@
+export const en = `
+be am is are was were been being
+have has had having
+do does did done doing
+go goes went gone going
+say says said saying
+get gets got gotten getting
+make makes made making
+know knows knew known knowing
+think thinks thought thinking
+take takes took taken taking
+see sees seen seeing
+come comes came coming
+give gives gave given giving
+find finds found finding
+tell tells told telling
+bring brings brought bringing
+begin begins began begun beginning
+keep keeps kept keeping
+hold holds held holding
+write writes wrote written writing
+stand stands stood standing
+run runs ran running
+lose loses lost losing
+pay pays paid paying
+meet meets met meeting
+speak speaks spoke spoken speaking
+grow grows grew grown growing
+choose chooses chose chosen choosing
+eat eats ate eaten eating
+buy buys bought buying
+teach teaches taught teaching
+catch catches caught catching
+fight fights fought fighting
+seek seeks sought seeking
+sleep sleeps slept sleeping
+swim swims swam swum swimming
+sing sings sang sung singing
+drive drives drove driven driving
+ride rides rode ridden riding
+break breaks broke broken breaking
+steal steals stole stolen stealing
+wear wears wore worn wearing
+throw throws threw thrown throwing
+fly flies flew flown flying
+draw draws drew drawn drawing
+forget forgets forgot forgotten forgetting
+hide hides hid hidden hiding
+man men
+woman women
+child children
+foot feet
+tooth teeth
+mouse mice
+goose geese
+wife wives
+knife knives
+leaf leaves
+wolf wolves
+half halves
+thief thieves
+shelf shelves
+good better best
+bad worse worst
+`;
@@ -0,0 +1,16 @@
+export const es = `
+ser soy eres es somos sois son era eras éramos erais eran fui fuiste fue fuimos fuisteis fueron seré serás será seremos seréis serán sería serías seríamos seríais serían sido siendo sea seas seamos seáis sean fuera fueras fuéramos fuerais fueran
+estar estoy estás está estamos estáis están estaba estabas estábamos estabais estaban estuve estuviste estuvo estuvimos estuvisteis estuvieron estaré estará estarán estaría estarían estando esté estés estén
+haber he has ha hemos habéis han había habías habíamos habíais habían hubo hubiera habrá habría habido habiendo haya hayas hayamos hayan
+tener tengo tienes tiene tenemos tenéis tienen tenía tenías teníamos tenían tuve tuviste tuvo tuvimos tuvieron tendré tendrá tendremos tendrán tendría tendrían tenido teniendo tenga tengas tengamos tengan
+ir voy vas va vamos vais van iba ibas íbamos ibais iban iré irá iremos irán iría irían ido yendo vaya vayas vayamos vayan
+hacer hago haces hace hacemos hacéis hacen hacía hacían hice hiciste hizo hicimos hicieron haré hará haremos harán haría harían hecho haciendo haga hagas hagamos hagan
+decir digo dices dice decimos decís dicen decía decían dije dijiste dijo dijimos dijeron diré dirá diremos dirán diría dirían dicho diciendo diga digas digamos digan
+poder puedo puedes puede podemos podéis pueden podía podían pude pudiste pudo pudimos pudieron podré podrá podremos podrán podría podrían podido pudiendo pueda puedas puedan
+querer quiero quieres quiere queremos queréis quieren quería querían quise quisiste quiso quisimos quisieron querré querrá querrán querría querrían querido queriendo quiera quieras quieran
+saber sé sabes sabe sabemos sabéis saben sabía sabían supe supiste supo supimos supieron sabré sabrá sabrán sabría sabrían sabido sabiendo sepa sepas sepan
+ver veo ves ve vemos veis ven veía veían vi viste vio vimos vieron verá verán vería verían visto viendo vea veas vean
+venir vengo vienes viene venimos venís vienen venía venían vine viniste vinimos vinieron vendré vendrá vendrán vendría vendrían venido viniendo venga vengas vengan
+dar doy das da damos dais dan daba daban di diste dio dimos dieron dará darán daría darían dado dando dé
+poner pongo pones pone ponemos ponéis ponen ponía ponían puse pusiste puso pusimos pusieron pondré pondrá pondrán pondría pondrían puesto poniendo ponga pongas pongan
+`;
@@ -0,0 +1,21 @@
+export const fr = `
+être suis es est sommes êtes sont étais était étions étiez étaient fus fut fûmes furent fût serai seras sera serons serez seront serais serait serions seriez seraient été étant sois soit soyons soyez soient
+avoir ai as a avons avez ont avais avait avions aviez avaient eus eut eûmes eurent eût aurai auras aura aurons aurez auront aurais aurait aurions auriez auraient eu ayant aie aies ait ayons ayez aient
+aller vais vas va allons allez vont allais allait allions alliez allaient allai alla allèrent irai iras ira irons irez iront irais irait irions iriez iraient allé allée allés allées allant aille ailles aillent
+faire fais fait faisons faites font faisais faisait faisions faisiez faisaient fis fit firent ferai feras fera ferons ferez feront ferais ferait ferions feriez feraient faite faits faisant fasse fasses fassions fassiez fassent
+dire dis dit disons dites disent disais disait disions disiez disaient dirent dirai diras dira dirons direz diront dirais dirait diraient dite dits disant dise
+pouvoir peux peut pouvons pouvez peuvent pouvais pouvait pouvions pouviez pouvaient pus put purent pourrai pourras pourra pourrons pourrez pourront pourrais pourrait pourrions pourriez pourraient pu pouvant puisse puisses puissions puissiez puissent
+vouloir veux veut voulons voulez veulent voulais voulait voulions vouliez voulaient voulus voulut voulurent voudrai voudras voudra voudrons voudrez voudront voudrais voudrait voudrions voudriez voudraient voulu voulant veuille veuillez veuillent
+savoir sais sait savons savez savent savais savait savions saviez savaient sus sut surent saurai sauras saura saurons saurez sauront saurais saurait saurions sauriez sauraient su sachant sache saches sachions sachiez sachent
+voir vois voit voyons voyez voient voyais voyait voyions voyiez voyaient vis vit virent verrai verras verra verrons verrez verront verrais verrait verrions verriez verraient vu vue vus vues voyant voie
+venir viens vient venons venez viennent venais venait venions veniez venaient vins vint vinrent viendrai viendras viendra viendrons viendrez viendront viendrais viendrait viendrions viendriez viendraient venu venue venus venues venant vienne viennes
+devoir dois doit devons devez doivent devais devait devions deviez devaient dut durent devrai devras devra devrons devrez devront devrais devrait devrions devriez devraient dû due dus dues doive
+prendre prends prend prenons prenez prennent prenais prenait prenions preniez prenaient pris prit prirent prendrai prendras prendra prendrons prendrez prendront prendrais prendrait prendrions prendriez prendraient prise prises prenant prenne prennes
+mettre mets met mettons mettez mettent mettais mettait mettaient mis mit mirent mettrai mettra mettront mettrait mise mises mettant mette
+tenir tiens tient tenons tenez tiennent tenais tenait tenaient tins tint tinrent tiendrai tiendra tiendront tiendrait tenu tenue tenant tienne
+œil yeux
+ciel cieux
+beau belle belles beaux bel
+nouveau nouvelle nouvelles nouveaux nouvel
+vieux vieille vieilles vieil
+`;
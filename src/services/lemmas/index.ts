@@ -0,0 +1,22 @@
+import { de } from "./de";
+import { en } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { it } from "./it";
+import { nl } from "./nl";
+import { pt } from "./pt";
+
+/**
+ * Small lemma lists that come with the plugin: the most common irregular
+ * forms of each language, one lemma per line followed by its forms. They
+ * are far from complete, see parseBuiltInLemmaList.
+ */
+export const BUILT_IN_LEMMA_LISTS: Record<string, string> = {
+	de,
+	en,
+	es,
+	fr,
+	it,
+	nl,
+	pt,
+};
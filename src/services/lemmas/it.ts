@@ -0,0 +1,15 @@
+export const it = `
+essere sono sei è siamo siete ero eri era eravamo eravate erano fui fosti fu fummo foste furono sarò sarai sarà saremo sarete saranno sarei saresti sarebbe saremmo sareste sarebbero stato stata stati state essendo sia siano fossi fosse fossero
+avere ho hai ha abbiamo avete hanno avevo avevi aveva avevamo avevate avevano ebbi avesti ebbe ebbero avrò avrai avrà avremo avrete avranno avrei avrebbe avrebbero avuto avendo abbia abbiano avessi avesse
+andare vado vai va andiamo andate vanno andavo andava andavano andai andò andarono andrò andrà andranno andrei andrebbe andato andata andati andando vada vadano
+fare faccio fai fa facciamo fate fanno facevo faceva facevano feci fece fecero farò farà faranno farei farebbe fatto fatta fatti facendo faccia facciano
+dire dico dici dice diciamo dite dicono dicevo diceva dicevano dissi disse dissero dirò dirà diranno direi direbbe detto detta detti dicendo dica dicano
+potere posso puoi può possiamo potete possono potevo poteva potevano potei poté potrò potrà potranno potrei potrebbe potuto potendo possa possano
+volere voglio vuoi vuole vogliamo volete vogliono volevo voleva volevano volli volle vollero vorrò vorrà vorranno vorrei vorrebbe voluto volendo voglia vogliano
+sapere so sai sa sappiamo sapete sanno sapevo sapeva sapevano seppi seppe seppero saprò saprà sapranno saprei saprebbe saputo sapendo sappia sappiano
+vedere vedo vedi vede vediamo vedete vedono vedevo vedeva vedevano vidi vide videro vedrò vedrà vedranno vedrei vedrebbe visto visti vedendo veda vedano
+venire vengo vieni viene veniamo venite vengono venivo veniva venivano venni venne vennero verrò verrà verranno verrei verrebbe venuto venuta venuti venendo venga vengano
+dovere devo devi deve dobbiamo dovete devono dovevo doveva dovevano dovrò dovrà dovranno dovrei dovrebbe dovuto dovendo debba debbano
+stare sto stai sta stiamo stanno stavo stava stavano stetti stette stettero starò starà staranno starei starebbe stando stia stiano
+dare do dai dà diamo date davo dava davano diedi diede diedero darò darà daranno darei darebbe dato dando dia diano
+`;
@@ -0,0 +1,32 @@
+export const nl = `
+zijn ben bent is was waren geweest
+hebben heb hebt heeft had hadden gehad
+gaan ga gaat ging gingen gegaan
+doen doe doet deed deden gedaan
+komen kom komt kwam kwamen gekomen
+zien zie ziet zag zagen gezien
+zeggen zeg zegt zei zeiden gezegd
+kunnen kan kunt kon konden gekund
+willen wil wilt wou wilde wilden gewild
+zullen zal zult zou zouden
+moeten moet moest moesten gemoeten
+mogen mag mocht mochten gemogen
+weten weet wist wisten geweten
+worden word wordt werd werden geworden
+staan sta staat stond stonden gestaan
+nemen neem neemt nam namen genomen
+geven geef geeft gaf gaven gegeven
+vinden vind vindt vond vonden gevonden
+denken denk denkt dacht dachten gedacht
+brengen breng brengt bracht brachten gebracht
+liggen lig ligt lag lagen gelegen
+zitten zit zat zaten gezeten
+lopen loop loopt liep liepen gelopen
+schrijven schrijf schrijft schreef schreven geschreven
+lezen lees leest las lazen gelezen
+eten eet at aten gegeten
+kind kinderen
+ei eieren
+stad steden
+schip schepen
+`;
@@ -0,0 +1,15 @@
+export const pt = `
+ser sou és é somos sois são era eras éramos eram fui foste foi fomos foram serei será seremos serão seria seriam sido sendo seja sejas sejamos sejam fosse fossem for forem
+estar estou estás está estamos estão estava estavas estávamos estavam estive esteve estivemos estiveram estarei estará estarão estaria estariam estando esteja estejam estivesse
+ter tenho tens tem temos tendes têm tinha tinhas tínhamos tinham tive teve tivemos tiveram terei terá teremos terão teria teriam tido tendo tenha tenhas tenhamos tenham tivesse
+haver hei hás há havemos hão havia haviam houve houvera haverá haveria havido havendo haja hajam
+ir vou vais vai vamos ides vão ia ias íamos iam irei irá iremos irão iria iriam ido indo vá
+fazer faço fazes faz fazemos fazem fazia faziam fiz fez fizemos fizeram farei fará faremos farão faria fariam feito feita fazendo faça façam fizesse
+dizer digo dizes diz dizemos dizem dizia diziam disse dissemos disseram direi dirá diremos dirão diria diriam dito dita dizendo diga digam dissesse
+poder posso podes pode podemos podem podia podiam pude pôde pudemos puderam poderei poderá poderão poderia poderiam podido podendo possa possam pudesse
+querer quero queres quer queremos querem queria queriam quis quisemos quiseram quererei quererá quereria querido querendo queira queiram quisesse
+saber sei sabes sabe sabemos sabem sabia sabiam soube soubemos souberam saberei saberá saberia sabido sabendo saiba saibam soubesse
+ver vejo vês vê vemos veem viam vi viu vimos viram verei verá veremos verão veria veriam visto vendo veja vejam visse
+vir venho vens vem vêm vinha vinham vim veio viemos vieram virei virá virão viria viriam vindo venha venham viesse
+dar dou dás dá damos dão dava davam dei deu demos deram darei dará darão daria dariam dado dando dê deem desse
+`;
@@ -0,0 +1,103 @@
+import * as chai from "chai";
+import {
+	Lemmatizer,
+	normalizeVocabulary,
+	parseBuiltInLemmaList,
+	parseLemmaList,
+} from "./vocabulary";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+describe("vocabulary", async function () {
+	const lemmas = parseLemmaList(
+		["run\trunning", "run\tran", "manger\tmangeaient", "Haus\tHäuser", "bad"].join(
+			"\n",
+		),
+	);
+
+	it("parseLemmaList", async function () {
+		chai.expect(Array.from(lemmas)).to.deep.equal([
+			["running", "run"],
+			["ran", "run"],
+			["mangeaient", "manger"],
+			["häuser", "Haus"],
+		]);
+	});
+
+	it("normalizeVocabulary strips punctuation and quotes", async function () {
+		chai.expect(normalizeVocabulary(" «Ephemeral», ", "fr")).equal("ephemeral");
+		chai.expect(normalizeVocabulary("ran\n away.", "en")).equal("ran away");
+		chai.expect(normalizeVocabulary("NASA", "en")).equal("NASA");
+		chai.expect(normalizeVocabulary("…", "en")).equal("…");
+	});
+
+	it("normalizeVocabulary keeps German nouns capitalized", async function () {
+		chai.expect(normalizeVocabulary("Fernweh!", "de")).equal("Fernweh");
+	});
+
+	it("normalizeVocabulary lemmatizes single words", async function () {
+		chai.expect(normalizeVocabulary("Running,", "en", lemmas)).equal("run");
+		chai.expect(normalizeVocabulary("mangeaient", "fr", lemmas)).equal(
+			"manger",
+		);
+		chai.expect(normalizeVocabulary("Häuser", "de", lemmas)).equal("Haus");
+		chai.expect(normalizeVocabulary("ran away", "en", lemmas)).equal(
+			"ran away",
+		);
+	});
+
+	it("normalizeVocabulary without lemma lists keeps the highlighted form", async function () {
+		chai.expect(normalizeVocabulary("Running,", "en")).equal("running");
+		chai.expect(normalizeVocabulary("mangeaient", "fr")).equal("mangeaient");
+	});
+
+	it("parseBuiltInLemmaList", async function () {
+		chai.expect(
+			Array.from(parseBuiltInLemmaList("\nHaus Häuser Häusern\ngo went\n")),
+		).to.deep.equal([
+			["häuser", "Haus"],
+			["häusern", "Haus"],
+			["went", "go"],
+		]);
+	});
+
+	it("Lemmatizer uses the built-in lists by default", async function () {
+		// No lemma list folder set, the default
+		const lemmatizer = new Lemmatizer("", async () => {
+			throw new Error("no folder to read");
+		});
+		const lemmatize = async (text: string, language: string) =>
+			normalizeVocabulary(text, language, await lemmatizer.getLemmas(language));
+
+		chai.expect(await lemmatize("went", "en")).equal("go");
+		chai.expect(await lemmatize("Children", "en")).equal("child");
+		chai.expect(await lemmatize("étaient", "fr")).equal("être");
+		chai.expect(await lemmatize("Häuser", "de")).equal("Haus");
+		chai.expect(await lemmatize("hizo", "es")).equal("hacer");
+		chai.expect(await lemmatize("vuole", "it")).equal("volere");
+		chai.expect(await lemmatize("fizeram", "pt")).equal("fazer");
+		chai.expect(await lemmatize("kwamen", "nl")).equal("komen");
+		// Regular forms are only in the lists of the folder
+		chai.expect(await lemmatize("mangeaient", "fr")).equal("mangeaient");
+		chai.expect(await lemmatizer.getLemmas("ja")).to.be.undefined;
+	});
+
+	it("Lemmatizer loads each language once", async function () {
+		const read: string[] = [];
+		const lemmatizer = new Lemmatizer("lemmas", async (path) => {
+			read.push(path);
+			return path == "lemmas/en.txt" ? "run\tran\nwent\twent" : undefined;
+		});
+
+		const en = await lemmatizer.getLemmas("en");
+		chai.expect(en?.get("ran")).equal("run");
+		// The folder's lists win over the built-in ones, which complete them
+		chai.expect(en?.get("went")).equal("went");
+		chai.expect(en?.get("children")).equal("child");
+		chai.expect((await lemmatizer.getLemmas("fr"))?.get("étaient")).equal("être");
+		chai.expect(await lemmatizer.getLemmas("ja")).to.be.undefined;
+		await lemmatizer.getLemmas("en");
+
+		chai.expect(read).to.deep.equal(["lemmas/en.txt", "lemmas/fr.txt", "lemmas/ja.txt"]);
+	});
+});
@@ -0,0 +1,136 @@
+import { BUILT_IN_LEMMA_LISTS } from "./lemmas";
+
+// Lemma lists are named after the language, e.g. `fr.txt`
+export type LemmaList = Map<string, string>;
+
+/**
+ * Parses a lemma list with one `lemma<TAB>form` pair per line, as in the
+ * lemmatization-lists project. Forms are keyed in lower case; the first
+ * lemma of a form wins.
+ */
+export function parseLemmaList(text: string): LemmaList {
+	const lemmas: LemmaList = new Map();
+
+	for (const line of text.split(/\r?\n/)) {
+		const [lemma, form] = line.replace(/^\uFEFF/, "").split("\t");
+		if (!lemma?.trim() || !form?.trim()) {
+			continue;
+		}
+
+		const key = form.trim().toLowerCase();
+		if (!lemmas.has(key)) {
+			lemmas.set(key, lemma.trim());
+		}
+	}
+
+	return lemmas;
+}
+
+/**
+ * Parses a built-in lemma list, with one lemma per line followed by its
+ * forms, separated by spaces. Forms are keyed in lower case.
+ */
+export function parseBuiltInLemmaList(text: string): LemmaList {
+	const lemmas: LemmaList = new Map();
+
+	for (const line of text.split("\n")) {
+		const [lemma, ...forms] = line.trim().split(" ");
+		for (const form of forms) {
+			if (!lemmas.has(form.toLowerCase())) {
+				lemmas.set(form.toLowerCase(), lemma);
+			}
+		}
+	}
+
+	return lemmas;
+}
+
+/**
+ * The form of a vocabulary highlight that is looked up: without the
+ * punctuation and quotes around it, on a single line, in lower case except
+ * for German (where nouns are capitalized) and acronyms, and reduced to its
+ * lemma when it is a single word of the lemma list, e.g. "Running," → "run".
+ */
+export function normalizeVocabulary(
+	text: string,
+	language: string,
+	lemmas?: LemmaList,
+): string {
+	const cleaned = text
+		.replace(/\s+/g, " ")
+		.trim()
+		.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+	if (!cleaned) {
+		return text.trim();
+	}
+
+	const cased =
+		language == "de" || /^\p{Lu}{2,}$/u.test(cleaned)
+			? cleaned
+			: cleaned.toLowerCase();
+	if (!lemmas || cased.includes(" ")) {
+		return cased;
+	}
+
+	return lemmas.get(cased.toLowerCase()) ?? cased;
+}
+
+/**
+ * Loads the lemma list of each language once: the built-in list of the
+ * language, completed by the list in the folder of the vault if any, whose
+ * lemmas win. Languages without a list are not lemmatized.
+ */
+export class Lemmatizer {
+	// Empty for the built-in lists only
+	private folder: string;
+	private readFile: (_path: string) => Promise<string | undefined>;
+	private lists = new Map<string, Promise<LemmaList | undefined>>();
+
+	constructor(
+		folder: string,
+		readFile: (_path: string) => Promise<string | undefined>,
+	) {
+		this.folder = folder;
+		this.readFile = readFile;
+	}
+
+	getLemmas(language: string): Promise<LemmaList | undefined> {
+		let list = this.lists.get(language);
+		if (!list) {
+			list = this.load(language);
+			this.lists.set(language, list);
+		}
+
+		return list;
+	}
+
+	private async load(language: string): Promise<LemmaList | undefined> {
+		const builtIn = BUILT_IN_LEMMA_LISTS[language]
+			? parseBuiltInLemmaList(BUILT_IN_LEMMA_LISTS[language])
+			: undefined;
+		if (!this.folder) {
+			return builtIn;
+		}
+
+		const path = `${this.folder}/${language}.txt`;
+		try {
+			const text = await this.readFile(path);
+			if (text == null) {
+				return builtIn;
+			}
+
+			const lemmas = parseLemmaList(text);
+			console.log(`📚 Loaded ${lemmas.size} word forms from ${path}`);
+			for (const [form, lemma] of builtIn ?? []) {
+				if (!lemmas.has(form)) {
+					lemmas.set(form, lemma);
+				}
+			}
+
+			return lemmas;
+		} catch (error) {
+			console.warn(`Could not read the lemma list ${path}:`, error);
+			return builtIn;
+		}
+	}
+}
@@ -1,5 +1,20 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import {
+	CachedDefinition,
+	DeletedHighlightPolicy,
+	HighlightType,
+	ImportWatermark,
+	ReviewState,
+	StoredReadingSession,
+} from "src/database/interfaces";
 import KoboHighlightsImporter from "src/main";
+import { DefinitionCacheModal } from "src/modal/DefinitionCacheModal";
+import { DefinitionProviderType } from "src/services/DefinitionProvider";
+import { LANGUAGES } from "src/services/languages";
+import {
+	DEFAULT_HIGHLIGHT_TYPES,
+	getHighlightType,
+} from "src/template/highlightTypes";
 import { FileSuggestor } from "./suggestors/FileSuggestor";
 import { FolderSuggestor } from "./suggestors/FolderSuggestor";
 
@@ -9,6 +24,50 @@ export const DEFAULT_SETTINGS: KoboHighlightsImporterSettings = {
 	templatePath: "",
 	importAllBooks: false,
 	ollamaModel: "",
+	definitionProviders: ["ollama"],
+	dictionaryPath: "",
+	definitionLanguage: "",
+	translationLanguage: "",
+	lemmaFolder: "",
+	openaiBaseUrl: "http://localhost:8080/v1",
+	openaiModel: "",
+	openaiApiKey: "",
+	openaiTemperature: 0.2,
+	openaiSystemPrompt: "You are a concise dictionary. Answer in the JSON format asked for.",
+	definitionConcurrency: 2,
+	definitionTimeout: 60,
+	definitionRetries: 2,
+	definitionCache: {},
+	incrementalImport: true,
+	importWatermarks: {},
+	readingSessions: {},
+	deletedHighlightPolicy: "remove",
+	autoImport: "off",
+	devicePaths: [
+		"/Volumes/KOBOeReader",
+		"/media/*/KOBOeReader",
+		"/run/media/*/KOBOeReader",
+	],
+	autoImportInterval: 10,
+	databasePath: "",
+	lastDatabasePath: "",
+	markupFolder: "Kobo markups",
+	highlightTypes: DEFAULT_HIGHLIGHT_TYPES,
+	ankiDeck: "Kobo",
+	ankiIncludeQuotes: false,
+	reviewNewCards: 20,
+	reviewStates: {},
+	vocabularyIndexPath: "",
+	vocabularyIndexPerLanguage: false,
+	vocabularyIndexTemplatePath: "",
+	libraryDashboardPath: "",
+	libraryDashboardTemplatePath: "",
+	readingStatsPath: "",
+	readingStatsTemplatePath: "",
+	dailyNotes: false,
+	dailyNotesEmbed: false,
+	dailyNotesCreate: false,
+	dailyNotesBackfill: false,
 };
 
 export interface KoboHighlightsImporterSettings {
@@ -17,8 +76,76 @@ export interface KoboHighlightsImporterSettings {
 	templatePath: string;
 	importAllBooks: boolean;
 	ollamaModel: string;
+	// Tried in order until every word has a definition
+	definitionProviders: DefinitionProviderType[];
+	// JSON, JSON Lines or StarDict (.ifo) dictionary in the vault
+	dictionaryPath: string;
+	// Language definitions are written in, empty for the book's own language
+	definitionLanguage: string;
+	// Language vocabulary is also translated into, empty for none
+	translationLanguage: string;
+	// Folder of `<language>.txt` lemma lists, empty for the built-in ones only
+	lemmaFolder: string;
+	// Any server exposing the OpenAI /v1/chat/completions API
+	openaiBaseUrl: string;
+	openaiModel: string;
+	openaiApiKey: string;
+	openaiTemperature: number;
+	openaiSystemPrompt: string;
+	// Definition requests running at the same time
+	definitionConcurrency: number;
+	// Seconds before a definition request is retried
+	definitionTimeout: number;
+	definitionRetries: number;
+	// See DefinitionCache
+	definitionCache: Record<string, CachedDefinition>;
+	incrementalImport: boolean;
+	// deviceId -> state of the last import from that device
+	importWatermarks: Record<string, ImportWatermark>;
+	// deviceId -> reading sessions of that device, see mergeReadingSessions
+	readingSessions: Record<string, StoredReadingSession[]>;
+	deletedHighlightPolicy: DeletedHighlightPolicy;
+	autoImport: AutoImportMode;
+	// Mount points or KoboReader.sqlite paths, `*` and `?` allowed
+	devicePaths: string[];
+	// Seconds between two checks for a mounted device
+	autoImportInterval: number;
+	// Database used by the re-import commands, falls back to lastDatabasePath
+	databasePath: string;
+	lastDatabasePath: string;
+	markupFolder: string;
+	// One entry per Kobo highlight color
+	highlightTypes: HighlightType[];
+	// Parent deck of the Anki export, one subdeck per book
+	ankiDeck: string;
+	ankiIncludeQuotes: boolean;
+	// Words never reviewed before added to a review session
+	reviewNewCards: number;
+	// bookmarkId -> review state of a vocabulary highlight
+	reviewStates: Record<string, ReviewState>;
+	// Note listing the vocabulary of all books, empty for none
+	vocabularyIndexPath: string;
+	// One index note per language, e.g. "Vocabulary (French).md"
+	vocabularyIndexPerLanguage: boolean;
+	vocabularyIndexTemplatePath: string;
+	// Note listing every book of the device, empty for none
+	libraryDashboardPath: string;
+	libraryDashboardTemplatePath: string;
+	// Note with the reading statistics of the device, empty for none
+	readingStatsPath: string;
+	readingStatsTemplatePath: string;
+	// Add the new highlights of each day to that day's daily note
+	dailyNotes: boolean;
+	// Embed the highlights instead of linking to them
+	dailyNotesEmbed: boolean;
+	// Create the daily notes that do not exist yet
+	dailyNotesCreate: boolean;
+	// On the first import of a book, add all its highlights, not none
+	dailyNotesBackfill: boolean;
 }
 
+export type AutoImportMode = "off" | "import" | "prompt";
+
 export class KoboHighlightsImporterSettingsTab extends PluginSettingTab {
 	constructor(
 		public app: App,
@@ -35,7 +162,30 @@ export class KoboHighlightsImporterSettingsTab extends PluginSettingTab {
 		this.addTemplatePath();
 		this.addSortByChapterProgress();
 		this.addImportAllBooks();
+		this.addDefinitionProviders();
+		this.addDefinitionLanguage();
+		this.addTranslationLanguage();
+		this.addLemmaFolder();
 		this.addOllamaModel();
+		this.addOpenAICompatible();
+		this.addDictionaryPath();
+		this.addDefinitionRequests();
+		this.addDefinitionCache();
+		this.addIncrementalImport();
+		this.addDeletedHighlightPolicy();
+		this.addResetImportHistory();
+		this.addAutoImport();
+		this.addDevicePaths();
+		this.addAutoImportInterval();
+		this.addDatabasePath();
+		this.addMarkupFolder();
+		this.addHighlightTypes();
+		this.addAnkiExport();
+		this.addReviewNewCards();
+		this.addVocabularyIndex();
+		this.addLibraryDashboard();
+		this.addReadingStats();
+		this.addDailyNotes();
 	}
 
 	private addDestinationFolder(): void {
@@ -107,6 +257,200 @@ export class KoboHighlightsImporterSettingsTab extends PluginSettingTab {
 				);
 			});
 	}
+	private addDefinitionProviders(): void {
+		const providerNames: Record<DefinitionProviderType, string> = {
+			ollama: "Ollama",
+			openai: "OpenAI-compatible server",
+			dictionary: "Offline dictionary",
+		};
+		const [primary, fallback] = this.plugin.settings.definitionProviders;
+
+		const save = async (providers: (string | undefined)[]) => {
+			this.plugin.settings.definitionProviders = providers.filter(
+				(p, i): p is DefinitionProviderType =>
+					!!p && p in providerNames && providers.indexOf(p) == i,
+			);
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(this.containerEl)
+			.setName("Definitions")
+			.setDesc("Where vocabulary definitions come from")
+			.addDropdown((cb) => {
+				cb.addOptions(providerNames)
+					.setValue(primary ?? "ollama")
+					.onChange(async (value) => {
+						await save([value, this.plugin.settings.definitionProviders[1]]);
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("Fallback definitions")
+			.setDesc("Tried for the words the first source could not define, e.g. an LLM after the dictionary")
+			.addDropdown((cb) => {
+				cb.addOptions({ "": "None", ...providerNames })
+					.setValue(fallback ?? "")
+					.onChange(async (value) => {
+						await save([this.plugin.settings.definitionProviders[0], value]);
+					});
+			});
+	}
+
+	private addOpenAICompatible(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"Base URL of a server exposing the OpenAI /v1/chat/completions API, e.g. llama.cpp server (http://localhost:8080/v1), LM Studio (http://localhost:1234/v1) or vLLM (http://localhost:8000/v1).",
+		);
+
+		new Setting(this.containerEl)
+			.setName("OpenAI-compatible server")
+			.setDesc(desc)
+			.addText((cb) => {
+				cb.setPlaceholder("http://localhost:8080/v1")
+					.setValue(this.plugin.settings.openaiBaseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiBaseUrl = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("OpenAI-compatible model")
+			.setDesc("Model name sent to the server")
+			.addText((cb) => {
+				cb.setPlaceholder("qwen2.5-7b-instruct")
+					.setValue(this.plugin.settings.openaiModel)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiModel = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("OpenAI-compatible API key")
+			.setDesc("Sent as a Bearer token. Leave empty for local servers without authentication.")
+			.addText((cb) => {
+				cb.inputEl.type = "password";
+				cb.setValue(this.plugin.settings.openaiApiKey).onChange(
+					async (value) => {
+						this.plugin.settings.openaiApiKey = value.trim();
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+
+		new Setting(this.containerEl)
+			.setName("OpenAI-compatible temperature")
+			.setDesc("Lower values give more consistent definitions")
+			.addText((cb) => {
+				cb.setPlaceholder("0.2")
+					.setValue(String(this.plugin.settings.openaiTemperature))
+					.onChange(async (value) => {
+						const temperature = parseFloat(value);
+						if (isNaN(temperature) || temperature < 0) {
+							return;
+						}
+
+						this.plugin.settings.openaiTemperature = temperature;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("OpenAI-compatible system prompt")
+			.setDesc("Sent before every definition request. Leave empty for none.")
+			.addTextArea((cb) => {
+				cb.setValue(this.plugin.settings.openaiSystemPrompt).onChange(
+					async (value) => {
+						this.plugin.settings.openaiSystemPrompt = value;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+	}
+
+	private addDefinitionRequests(): void {
+		const addNumber = (
+			name: string,
+			desc: string,
+			key: "definitionConcurrency" | "definitionTimeout" | "definitionRetries",
+			min: number,
+		) => {
+			new Setting(this.containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((cb) => {
+					cb.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+						.setValue(String(this.plugin.settings[key]))
+						.onChange(async (value) => {
+							const number = parseInt(value);
+							if (isNaN(number) || number < min) {
+								return;
+							}
+
+							this.plugin.settings[key] = number;
+							await this.plugin.saveSettings();
+						});
+				});
+		};
+
+		addNumber(
+			"Parallel definition requests",
+			"How many words are sent to the model at the same time. Keep it low for models running on the CPU.",
+			"definitionConcurrency",
+			1,
+		);
+		addNumber(
+			"Definition request timeout",
+			"Seconds to wait for a definition before retrying",
+			"definitionTimeout",
+			1,
+		);
+		addNumber(
+			"Definition request retries",
+			"How many times a failed or timed out request is retried, waiting longer each time",
+			"definitionRetries",
+			0,
+		);
+	}
+
+	private addDefinitionCache(): void {
+		new Setting(this.containerEl)
+			.setName("Definition cache")
+			.setDesc(`Definitions fetched from language models are kept for every book (${this.plugin.definitionCache.size} cached). Clear it to fetch them again.`)
+			.addButton((cb) => {
+				cb.setButtonText("Inspect").onClick(() => {
+					new DefinitionCacheModal(this.app, this.plugin).open();
+				});
+			})
+			.addButton((cb) => {
+				cb.setButtonText("Clear").onClick(async () => {
+					await this.plugin.clearDefinitionCache();
+					this.display();
+				});
+			});
+	}
+
+	private addDictionaryPath(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"Dictionary file in the vault: a JSON object of word → definition, JSON Lines from a Wiktionary dump (kaikki.org), or the .ifo file of a StarDict dictionary.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Offline dictionary")
+			.setDesc(desc)
+			.addSearch((cb) => {
+				new FileSuggestor(this.app, cb.inputEl, ["json", "jsonl", "ifo"]);
+				cb.setPlaceholder("Example: dictionaries/fr-en.json")
+					.setValue(this.plugin.settings.dictionaryPath)
+					.onChange(async (value) => {
+						this.plugin.settings.dictionaryPath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
 	private addOllamaModel(): void {
 		new Setting(this.containerEl)
 			.setName("Ollama Model")
@@ -120,4 +464,502 @@ export class KoboHighlightsImporterSettingsTab extends PluginSettingTab {
 					});
 			});
 	}
+
+	private addIncrementalImport(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"Only rewrite notes of books with highlights added or changed since the last import from the same device.",
+			desc.createEl("br"),
+			"Turn off to always re-import every book.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Incremental import")
+			.setDesc(desc)
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.incrementalImport).onChange(
+					async (toggle) => {
+						this.plugin.settings.incrementalImport = toggle;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+	}
+
+	private addDefinitionLanguage(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"Language vocabulary definitions are written in, e.g. English definitions of the words of a German book.",
+			desc.createEl("br"),
+			"Override it for a single book with ",
+			desc.createEl("code", { text: "definition-language: en" }),
+			", and the language of the book with ",
+			desc.createEl("code", { text: "kobo-language: de" }),
+			", in the book note's frontmatter.",
+		);
+
+		const languages: Record<string, string> = { "": "Same as the book" };
+		for (const [code, info] of Object.entries(LANGUAGES)) {
+			languages[code] = info.name;
+		}
+
+		new Setting(this.containerEl)
+			.setName("Definitions in")
+			.setDesc(desc)
+			.addDropdown((cb) => {
+				cb.addOptions(languages)
+					.setValue(this.plugin.settings.definitionLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.definitionLanguage = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addTranslationLanguage(): void {
+		const languages: Record<string, string> = { "": "None" };
+		for (const [code, info] of Object.entries(LANGUAGES)) {
+			languages[code] = info.name;
+		}
+
+		new Setting(this.containerEl)
+			.setName("Translations in")
+			.setDesc("Also translate vocabulary into this language. Not used for books in that language.")
+			.addDropdown((cb) => {
+				cb.addOptions(languages)
+					.setValue(this.plugin.settings.translationLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.translationLanguage = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addLemmaFolder(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"Folder of lemma lists used to define the base form of conjugated or plural words, one ",
+			desc.createEl("code", { text: "lemma<TAB>form" }),
+			" pair per line in a file named after the language, e.g. ",
+			desc.createEl("code", { text: "fr.txt" }),
+			". The plugin comes with small lists of the most common irregular forms in English, French, Spanish, German, Italian, Portuguese and Dutch; the lists of the folder complete them.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Lemma lists")
+			.setDesc(desc)
+			.addSearch((cb) => {
+				new FolderSuggestor(this.app, cb.inputEl);
+				cb.setPlaceholder("Example: Kobo/lemmas")
+					.setValue(this.plugin.settings.lemmaFolder)
+					.onChange(async (folder) => {
+						this.plugin.settings.lemmaFolder = folder;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addDeletedHighlightPolicy(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"What to do with previously imported highlights that were deleted on the Kobo.",
+			desc.createEl("br"),
+			"Override it for a single book with ",
+			desc.createEl("code", { text: "kobo-deleted-highlights: remove | mark | archive" }),
+			" in the book note's frontmatter.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Deleted highlights")
+			.setDesc(desc)
+			.addDropdown((cb) => {
+				cb.addOptions({
+					remove: "Remove from note",
+					mark: "Keep, marked as deleted-on-device",
+					archive: "Move to \"Archived highlights\"",
+				})
+					.setValue(this.plugin.settings.deletedHighlightPolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.deletedHighlightPolicy =
+							value as DeletedHighlightPolicy;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addResetImportHistory(): void {
+		new Setting(this.containerEl)
+			.setName("Reset import history")
+			.setDesc("Forget what was imported so the next import processes every book again.")
+			.addButton((cb) => {
+				cb.setButtonText("Reset").onClick(async () => {
+					this.plugin.settings.importWatermarks = {};
+					await this.plugin.saveSettings();
+					new Notice("Kobo import history cleared");
+				});
+			});
+	}
+
+	private addAutoImport(): void {
+		new Setting(this.containerEl)
+			.setName("Import when a Kobo is connected")
+			.setDesc("Watch the device paths below and import, or open the import window, when a KoboReader.sqlite appears or changes.")
+			.addDropdown((cb) => {
+				cb.addOptions({
+					off: "Off",
+					prompt: "Open the import window",
+					import: "Import automatically",
+				})
+					.setValue(this.plugin.settings.autoImport)
+					.onChange(async (value) => {
+						this.plugin.settings.autoImport = value as AutoImportMode;
+						await this.plugin.saveSettings();
+						this.plugin.deviceWatcher.start();
+					});
+			});
+	}
+
+	private addDevicePaths(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"One path per line: the device mount point or the KoboReader.sqlite file itself.",
+			desc.createEl("br"),
+			"Use * and ? as wildcards, e.g. /media/*/KOBOeReader or ?:\\ for any Windows drive.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Device paths")
+			.setDesc(desc)
+			.addTextArea((cb) => {
+				cb.setPlaceholder("/media/*/KOBOeReader")
+					.setValue(this.plugin.settings.devicePaths.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.devicePaths = value
+							.split("\n")
+							.map((line) => line.trim())
+							.filter((line) => line.length > 0);
+						await this.plugin.saveSettings();
+						this.plugin.deviceWatcher.start();
+					});
+			});
+	}
+
+	private addAutoImportInterval(): void {
+		new Setting(this.containerEl)
+			.setName("Device check interval")
+			.setDesc("How often, in seconds, to look for a connected Kobo")
+			.addText((cb) => {
+				cb.setPlaceholder("10")
+					.setValue(String(this.plugin.settings.autoImportInterval))
+					.onChange(async (value) => {
+						const seconds = parseInt(value);
+						if (isNaN(seconds) || seconds < 1) {
+							return;
+						}
+
+						this.plugin.settings.autoImportInterval = seconds;
+						await this.plugin.saveSettings();
+						this.plugin.deviceWatcher.start();
+					});
+			});
+	}
+
+	private addDatabasePath(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"KoboReader.sqlite used by the \"Re-import from last Kobo database\" and \"Import single book from last database\" commands.",
+			desc.createEl("br"),
+			"Leave empty to use the last database imported from.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Database path")
+			.setDesc(desc)
+			.addText((cb) => {
+				cb.setPlaceholder(
+					this.plugin.settings.lastDatabasePath ||
+						"/media/KOBOeReader/.kobo/KoboReader.sqlite",
+				)
+					.setValue(this.plugin.settings.databasePath)
+					.onChange(async (value) => {
+						this.plugin.settings.databasePath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addMarkupFolder(): void {
+		new Setting(this.containerEl)
+			.setName("Markup images folder")
+			.setDesc("Where to copy handwritten markup images from the device (Kobo Elipsa/Sage). Only works when importing straight from the device.")
+			.addSearch((cb) => {
+				new FolderSuggestor(this.app, cb.inputEl);
+				cb.setPlaceholder("Example: attachments/kobo")
+					.setValue(this.plugin.settings.markupFolder)
+					.onChange(async (newFolder) => {
+						this.plugin.settings.markupFolder = newFolder;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addHighlightTypes(): void {
+		const desc = document.createDocumentFragment();
+		desc.append(
+			"What each Kobo highlight color means: a type name, an optional callout (e.g. quote, tip) and tags.",
+			desc.createEl("br"),
+			"Colors marked as vocabulary get definitions and are rendered as flashcards.",
+		);
+
+		new Setting(this.containerEl)
+			.setName("Highlight colors")
+			.setDesc(desc)
+			.setHeading();
+
+		for (const { color, colorName } of DEFAULT_HIGHLIGHT_TYPES) {
+			const highlightType = () =>
+				getHighlightType(color, this.plugin.settings.highlightTypes);
+			const update = async (changes: Partial<HighlightType>) => {
+				this.plugin.settings.highlightTypes = [
+					...this.plugin.settings.highlightTypes.filter(
+						(t) => t.color != color,
+					),
+					{ ...highlightType(), ...changes },
+				].sort((a, b) => a.color - b.color);
+				await this.plugin.saveSettings();
+			};
+
+			new Setting(this.containerEl)
+				.setName(colorName.charAt(0).toUpperCase() + colorName.slice(1))
+				.addText((cb) => {
+					cb.setPlaceholder("Type")
+						.setValue(highlightType().type)
+						.onChange(async (value) => {
+							await update({ type: value.trim() });
+						});
+				})
+				.addText((cb) => {
+					cb.setPlaceholder("Callout")
+						.setValue(highlightType().callout)
+						.onChange(async (value) => {
+							await update({ callout: value.trim() });
+						});
+				})
+				.addText((cb) => {
+					cb.setPlaceholder("Tags")
+						.setValue(highlightType().tags.join(" "))
+						.onChange(async (value) => {
+							await update({
+								tags: value
+									.split(/[\s,]+/)
+									.map((tag) => tag.replace(/^#/, ""))
+									.filter((tag) => tag.length > 0),
+							});
+						});
+				})
+				.addToggle((cb) => {
+					cb.setTooltip("Vocabulary")
+						.setValue(highlightType().vocabulary)
+						.onChange(async (toggle) => {
+							await update({ vocabulary: toggle });
+						});
+				});
+		}
+	}
+
+	private addAnkiExport(): void {
+		new Setting(this.containerEl).setName("Anki export").setHeading();
+
+		new Setting(this.containerEl)
+			.setName("Anki deck")
+			.setDesc("Deck of the \"Export to Anki\" command, with a subdeck per book")
+			.addText((cb) => {
+				cb.setPlaceholder("Kobo")
+					.setValue(this.plugin.settings.ankiDeck)
+					.onChange(async (value) => {
+						this.plugin.settings.ankiDeck = value.trim() || "Kobo";
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("Export quotes")
+			.setDesc("Also export the other highlights as cards, besides vocabulary")
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.ankiIncludeQuotes).onChange(
+					async (value) => {
+						this.plugin.settings.ankiIncludeQuotes = value;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+	}
+
+	private addReviewNewCards(): void {
+		new Setting(this.containerEl)
+			.setName("New words per review")
+			.setDesc("Words never reviewed before added to each \"Review vocabulary\" session")
+			.addText((cb) => {
+				cb.setPlaceholder("20")
+					.setValue(String(this.plugin.settings.reviewNewCards))
+					.onChange(async (value) => {
+						const count = parseInt(value);
+						if (isNaN(count) || count < 0) {
+							return;
+						}
+
+						this.plugin.settings.reviewNewCards = count;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addVocabularyIndex(): void {
+		new Setting(this.containerEl).setName("Vocabulary index").setHeading();
+
+		new Setting(this.containerEl)
+			.setName("Vocabulary index note")
+			.setDesc("Note listing the vocabulary of every book, updated on each import. Leave empty for none.")
+			.addText((cb) => {
+				cb.setPlaceholder("Example: Kobo/Vocabulary.md")
+					.setValue(this.plugin.settings.vocabularyIndexPath)
+					.onChange(async (value) => {
+						this.plugin.settings.vocabularyIndexPath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("One index per language")
+			.setDesc("Write a note per book language instead, e.g. \"Vocabulary (French).md\"")
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.vocabularyIndexPerLanguage).onChange(
+					async (value) => {
+						this.plugin.settings.vocabularyIndexPerLanguage = value;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+
+		new Setting(this.containerEl)
+			.setName("Vocabulary index template")
+			.setDesc("Template of the index note, see the README for its variables")
+			.addSearch((cb) => {
+				new FileSuggestor(this.app, cb.inputEl);
+				cb.setPlaceholder("Example: folder1/vocabulary-template")
+					.setValue(this.plugin.settings.vocabularyIndexTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.vocabularyIndexTemplatePath = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addLibraryDashboard(): void {
+		new Setting(this.containerEl).setName("Library dashboard").setHeading();
+
+		new Setting(this.containerEl)
+			.setName("Library dashboard note")
+			.setDesc("Note listing every book of the device by read status, updated on each import. Leave empty for none.")
+			.addText((cb) => {
+				cb.setPlaceholder("Example: Kobo/Kobo Library.md")
+					.setValue(this.plugin.settings.libraryDashboardPath)
+					.onChange(async (value) => {
+						this.plugin.settings.libraryDashboardPath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("Library dashboard template")
+			.setDesc("Template of the dashboard note, see the README for its variables")
+			.addSearch((cb) => {
+				new FileSuggestor(this.app, cb.inputEl);
+				cb.setPlaceholder("Example: folder1/library-template")
+					.setValue(this.plugin.settings.libraryDashboardTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.libraryDashboardTemplatePath = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addReadingStats(): void {
+		new Setting(this.containerEl).setName("Reading statistics").setHeading();
+
+		new Setting(this.containerEl)
+			.setName("Reading statistics note")
+			.setDesc("Note with the reading time, pages and highlights per year, month and book, updated on each import. Leave empty for none.")
+			.addText((cb) => {
+				cb.setPlaceholder("Example: Kobo/Reading statistics.md")
+					.setValue(this.plugin.settings.readingStatsPath)
+					.onChange(async (value) => {
+						this.plugin.settings.readingStatsPath = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(this.containerEl)
+			.setName("Reading statistics template")
+			.setDesc("Template of the statistics note, see the README for its variables")
+			.addSearch((cb) => {
+				new FileSuggestor(this.app, cb.inputEl);
+				cb.setPlaceholder("Example: folder1/stats-template")
+					.setValue(this.plugin.settings.readingStatsTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.readingStatsTemplatePath = value;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private addDailyNotes(): void {
+		new Setting(this.containerEl).setName("Daily notes").setHeading();
+
+		new Setting(this.containerEl)
+			.setName("Add highlights to daily notes")
+			.setDesc("On import, add the new highlights of each day to a \"Kobo highlights\" section of that day's daily note, as set in the Daily notes core plugin")
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.dailyNotes).onChange(async (value) => {
+					this.plugin.settings.dailyNotes = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(this.containerEl)
+			.setName("Embed highlights")
+			.setDesc("Embed the highlights from the book notes instead of linking to them")
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.dailyNotesEmbed).onChange(
+					async (value) => {
+						this.plugin.settings.dailyNotesEmbed = value;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+
+		new Setting(this.containerEl)
+			.setName("Create missing daily notes")
+			.setDesc("Create the daily notes of days that have none. When off, highlights of those days are left out.")
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.dailyNotesCreate).onChange(
+					async (value) => {
+						this.plugin.settings.dailyNotesCreate = value;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+
+		new Setting(this.containerEl)
+			.setName("Backfill daily notes")
+			.setDesc("Add all past highlights of books imported for the first time to the daily notes. When off, only highlights made after a book's first import are added.")
+			.addToggle((cb) => {
+				cb.setValue(this.plugin.settings.dailyNotesBackfill).onChange(
+					async (value) => {
+						this.plugin.settings.dailyNotesBackfill = value;
+						await this.plugin.saveSettings();
+					},
+				);
+			});
+	}
 }
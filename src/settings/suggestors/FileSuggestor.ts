@@ -1,9 +1,20 @@
 // source: https://github.com/liamcain/obsidian-periodic-notes/blob/04965a1e03932d804f6dd42c2e5dba0ede010d79/src/ui/file-suggest.ts
 
-import { TAbstractFile, TFile } from "obsidian";
+import { App, TAbstractFile, TFile } from "obsidian";
 import { TextInputSuggest } from "./Suggest";
 
 export class FileSuggestor extends TextInputSuggest<TFile> {
+	private extensions: string[];
+
+	constructor(
+		app: App,
+		inputEl: HTMLInputElement | HTMLTextAreaElement,
+		extensions: string[] = ["md"],
+	) {
+		super(app, inputEl);
+		this.extensions = extensions;
+	}
+
 	getSuggestions(inputStr: string): TFile[] {
 		const abstractFiles = this.app.vault.getAllLoadedFiles();
 		const files: TFile[] = [];
@@ -12,7 +23,7 @@ export class FileSuggestor extends TextInputSuggest<TFile> {
 		abstractFiles.forEach((file: TAbstractFile) => {
 			if (
 				file instanceof TFile &&
-				file.extension === "md" &&
+				this.extensions.includes(file.extension) &&
 				file.path.toLowerCase().contains(lowerCaseInputStr)
 			) {
 				files.push(file);
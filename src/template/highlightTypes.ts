@@ -0,0 +1,58 @@
+import { HighlightType } from "../database/interfaces";
+
+// Kobo color codes: 0 = yellow, 1 = pink, 2 = blue, 3 = green
+export const DEFAULT_HIGHLIGHT_TYPES: HighlightType[] = [
+	{
+		color: 0,
+		colorName: "yellow",
+		type: "Quote",
+		callout: "",
+		tags: [],
+		vocabulary: false,
+	},
+	{
+		color: 1,
+		colorName: "pink",
+		type: "Vocabulary",
+		callout: "",
+		tags: [],
+		vocabulary: true,
+	},
+	{
+		color: 2,
+		colorName: "blue",
+		type: "Quote",
+		callout: "",
+		tags: [],
+		vocabulary: false,
+	},
+	{
+		color: 3,
+		colorName: "green",
+		type: "Quote",
+		callout: "",
+		tags: [],
+		vocabulary: false,
+	},
+];
+
+/**
+ * Looks up the type of a highlight from its color. Highlights from firmware
+ * without colors are yellow, and colors missing from the settings fall back
+ * to the defaults.
+ */
+export function getHighlightType(
+	bookmarkColor: number | undefined,
+	highlightTypes: HighlightType[],
+): HighlightType {
+	const color = bookmarkColor ?? 0;
+
+	return (
+		highlightTypes.find((t) => t.color == color) ??
+		DEFAULT_HIGHLIGHT_TYPES.find((t) => t.color == color) ?? {
+			...DEFAULT_HIGHLIGHT_TYPES[0],
+			color,
+			colorName: `color ${color}`,
+		}
+	);
+}
@@ -0,0 +1,99 @@
+import * as chai from "chai";
+import { BookDetails, ReadStatus } from "../database/interfaces";
+import {
+	collectLibrary,
+	defaultLibraryDashboardTemplate,
+	formatReadingTime,
+	renderLibraryDashboard,
+} from "./libraryDashboard";
+
+describe("libraryDashboard", async function () {
+	const books: BookDetails[] = [
+		{
+			title: "Dune",
+			author: "Frank Herbert",
+			readStatus: ReadStatus.Read,
+			timeSpentReading: 7500,
+			dateLastRead: new Date("2023-01-05T10:00:00Z"),
+			series: "Dune",
+			seriesNumber: 1,
+		},
+		{
+			title: "Dune Messiah",
+			author: "Frank Herbert",
+			readStatus: ReadStatus.Reading,
+			percentRead: 40,
+			timeSpentReading: 600,
+			dateLastRead: new Date("2023-02-01T10:00:00Z"),
+			series: "Dune",
+			seriesNumber: 2,
+		},
+		{
+			title: "Emma",
+			author: "Jane Austen",
+			readStatus: ReadStatus.Unopened,
+		},
+	];
+
+	it("formatReadingTime", async function () {
+		chai.expect(formatReadingTime(720)).equal("12m");
+		chai.expect(formatReadingTime(7500)).equal("2h 05m");
+	});
+
+	it("collectLibrary", async function () {
+		const library = collectLibrary(books, (title) =>
+			title == "Dune" ? "Dune" : undefined,
+		);
+
+		chai.expect(library.groups.map((g) => [g.name, g.books.length])).to.deep.equal([
+			["Reading", 1],
+			["Not started", 1],
+			["Finished", 1],
+		]);
+		chai.expect(library.totals).to.deep.equal({
+			books: 3,
+			read: 1,
+			reading: 1,
+			unopened: 1,
+			timeSpentReading: 8100,
+		});
+		chai.expect(library.series).to.have.length(1);
+		chai.expect(library.series[0].books.map((b) => b.title)).to.deep.equal([
+			"Dune",
+			"Dune Messiah",
+		]);
+		chai.expect(library.groups[2].books[0].note).equal("Dune");
+	});
+
+	it("renderLibraryDashboard", async function () {
+		const rendered = renderLibraryDashboard(
+			defaultLibraryDashboardTemplate,
+			collectLibrary(books, (title) => (title == "Dune" ? "Dune" : undefined)),
+		);
+
+		chai.expect(rendered.split("\n")).to.deep.equal([
+			"# Kobo Library",
+			"",
+			"3 books: 1 reading, 1 finished, 1 not started. Time spent reading: 2h 15m.",
+			"",
+			"## Reading (1)",
+			"",
+			"- Dune Messiah — Frank Herbert — 40% — 10m — last read 2023-02-01",
+			"",
+			"## Not started (1)",
+			"",
+			"- Emma — Jane Austen",
+			"",
+			"## Finished (1)",
+			"",
+			"- [[Dune|Dune]] — Frank Herbert — 2h 05m — last read 2023-01-05",
+			"",
+			"## Series",
+			"",
+			"### Dune",
+			"",
+			"1. [[Dune|Dune]] — Read",
+			"2. Dune Messiah — Reading",
+		]);
+	});
+});
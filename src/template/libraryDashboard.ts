@@ -0,0 +1,175 @@
+import { Eta } from "eta";
+import { BookDetails, ReadStatus } from "../database/interfaces";
+
+const eta = new Eta({ autoEscape: false, autoTrim: false });
+
+export interface LibraryBook extends BookDetails {
+	// Book note to link to, without its extension, when it was imported
+	note?: string;
+}
+
+export interface LibraryGroup {
+	status: ReadStatus;
+	name: string;
+	books: LibraryBook[];
+	// In seconds, as stored by the Kobo
+	timeSpentReading: number;
+}
+
+export interface LibrarySeries {
+	name: string;
+	// By number in the series
+	books: LibraryBook[];
+}
+
+export interface Library {
+	groups: LibraryGroup[];
+	series: LibrarySeries[];
+	totals: {
+		books: number;
+		read: number;
+		reading: number;
+		unopened: number;
+		timeSpentReading: number;
+	};
+}
+
+// Dashboard order: what is being read first
+const STATUS_GROUPS: { status: ReadStatus; name: string }[] = [
+	{ status: ReadStatus.Reading, name: "Reading" },
+	{ status: ReadStatus.Unopened, name: "Not started" },
+	{ status: ReadStatus.Read, name: "Finished" },
+	{ status: ReadStatus.Unknown, name: "Unknown" },
+];
+
+export const defaultLibraryDashboardTemplate = `
+# Kobo Library
+
+<%= it.totals.books %> books: <%= it.totals.reading %> reading, <%= it.totals.read %> finished, <%= it.totals.unopened %> not started. Time spent reading: <%= it.formatReadingTime(it.totals.timeSpentReading) %>.
+<% it.groups.forEach((group) => { %>
+## <%= group.name %> (<%= group.books.length %>)
+
+<% group.books.forEach((book) => { -%>
+- <%= book.note ? '[[' + book.note + '|' + book.title + ']]' : book.title %> — <%= book.author %><%= group.status == it.ReadStatus.Reading ? ' — ' + (book.percentRead ?? 0) + '%' : '' %><%= book.timeSpentReading ? ' — ' + it.formatReadingTime(book.timeSpentReading) : '' %><%= book.dateLastRead ? ' — last read ' + book.dateLastRead.toISOString().slice(0, 10) : '' %>
+<% }) -%>
+<% }) -%>
+<% if (it.series.length > 0) { %>
+## Series
+<% it.series.forEach((series) => { %>
+### <%= series.name %>
+
+<% series.books.forEach((book) => { -%>
+<%= book.seriesNumber ?? '-' %>. <%= book.note ? '[[' + book.note + '|' + book.title + ']]' : book.title %> — <%= it.ReadStatus[book.readStatus ?? it.ReadStatus.Unknown] %>
+<% }) -%>
+<% }) -%>
+<% } -%>
+`;
+
+/**
+ * Time spent reading as "3h 05m", or "12m" under an hour.
+ */
+export function formatReadingTime(seconds: number): string {
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m`;
+	}
+
+	return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Groups the books of the device by read status, most recently read first,
+ * and by series. Groups without books are left out.
+ */
+export function collectLibrary(
+	books: BookDetails[],
+	getNoteName: (_bookTitle: string) => string | undefined,
+): Library {
+	const libraryBooks: LibraryBook[] = books.map((book) => {
+		const note = getNoteName(book.title);
+		return note ? { ...book, note } : { ...book };
+	});
+
+	const groups: LibraryGroup[] = [];
+	for (const { status, name } of STATUS_GROUPS) {
+		const groupBooks = libraryBooks
+			.filter((book) =>
+				status == ReadStatus.Unknown
+					? !STATUS_GROUPS.some(
+							(g) =>
+								g.status != ReadStatus.Unknown &&
+								g.status == book.readStatus,
+						)
+					: book.readStatus == status,
+			)
+			.sort(
+				(a, b) =>
+					(b.dateLastRead?.getTime() ?? 0) -
+						(a.dateLastRead?.getTime() ?? 0) ||
+					a.title.localeCompare(b.title),
+			);
+		if (groupBooks.length > 0) {
+			groups.push({
+				status,
+				name,
+				books: groupBooks,
+				timeSpentReading: sumReadingTime(groupBooks),
+			});
+		}
+	}
+
+	const series = new Map<string, LibraryBook[]>();
+	for (const book of libraryBooks) {
+		if (book.series) {
+			series.set(book.series, [...(series.get(book.series) ?? []), book]);
+		}
+	}
+
+	return {
+		groups,
+		series: Array.from(series, ([name, seriesBooks]) => ({
+			name,
+			books: seriesBooks.sort(
+				(a, b) =>
+					(a.seriesNumber ?? Infinity) - (b.seriesNumber ?? Infinity) ||
+					a.title.localeCompare(b.title),
+			),
+		})).sort((a, b) => a.name.localeCompare(b.name)),
+		totals: {
+			books: libraryBooks.length,
+			read: countStatus(libraryBooks, ReadStatus.Read),
+			reading: countStatus(libraryBooks, ReadStatus.Reading),
+			unopened: countStatus(libraryBooks, ReadStatus.Unopened),
+			timeSpentReading: sumReadingTime(libraryBooks),
+		},
+	};
+}
+
+function sumReadingTime(books: BookDetails[]): number {
+	return books.reduce((sum, book) => sum + (book.timeSpentReading ?? 0), 0);
+}
+
+function countStatus(books: BookDetails[], status: ReadStatus): number {
+	return books.filter((book) => book.readStatus == status).length;
+}
+
+export function renderLibraryDashboard(
+	rawTemplate: string,
+	library: Library,
+): string {
+	const rendered = eta.renderString(rawTemplate, {
+		...library,
+		ReadStatus,
+		formatReadingTime,
+	});
+
+	if (rendered === null) {
+		console.error(
+			"Library dashboard rendering failed: eta.renderString returned null.",
+		);
+
+		return "Error: Template rendering failed. Check console for details.";
+	}
+
+	return rendered.trim();
+}
@@ -0,0 +1,51 @@
+import { Eta } from "eta";
+import { ReadingStats } from "../services/ReadingStats";
+import { formatReadingTime } from "./libraryDashboard";
+
+const eta = new Eta({ autoEscape: false, autoTrim: false });
+
+export const defaultReadingStatsTemplate = `
+# Reading statistics
+
+<%= it.formatMinutes(it.totals.minutes) %> of reading over <%= it.totals.sessions %> sessions, <%= it.totals.pages %> pages turned and <%= it.totals.highlights %> highlights in <%= it.totals.books.length %> books.
+<% it.years.forEach((year) => { %>
+## <%= year.period %>
+
+<%= it.formatMinutes(year.minutes) %> of reading, <%= year.pages %> pages, <%= year.highlights %> highlights, <%= year.books.length %> books.
+
+| Month | Reading | Sessions | Pages | Highlights | Books |
+| ----- | ------- | -------- | ----- | ---------- | ----- |
+<% it.months.filter((month) => month.period.startsWith(year.period)).forEach((month) => { -%>
+| <%= month.period %> | <%= it.formatMinutes(month.minutes) %> | <%= month.sessions %> | <%= month.pages %> | <%= month.highlights %> | <%= month.books.length %> |
+<% }) -%>
+<% }) -%>
+<% if (it.books.length > 0) { %>
+## Books
+
+| Book | Reading | Sessions | Days | Pages | Highlights | Finished |
+| ---- | ------- | -------- | ---- | ----- | ---------- | -------- |
+<% it.books.forEach((book) => { -%>
+| <%= book.title.replace(/\\|/g, '\\\\|') %> | <%= it.formatMinutes(book.minutes) %> | <%= book.sessions %> | <%= book.days %> | <%= book.pages %> | <%= book.highlights %> | <%= book.finished ? book.finished.toISOString().slice(0, 10) : '' %> |
+<% }) -%>
+<% } -%>
+`;
+
+export function renderReadingStats(
+	rawTemplate: string,
+	stats: ReadingStats,
+): string {
+	const rendered = eta.renderString(rawTemplate, {
+		...stats,
+		formatMinutes: (minutes: number) => formatReadingTime(minutes * 60),
+	});
+
+	if (rendered === null) {
+		console.error(
+			"Reading statistics rendering failed: eta.renderString returned null.",
+		);
+
+		return "Error: Template rendering failed. Check console for details.";
+	}
+
+	return rendered.trim();
+}
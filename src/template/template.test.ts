@@ -1,7 +1,15 @@
 import * as chai from "chai";
-import { applyTemplateTransformations, defaultTemplate } from "./template";
+import {
+	applyTemplateTransformations,
+	defaultTemplate,
+	formatDefinition,
+	getBlockId,
+	parseDefinition,
+	parseNoteDefinitions,
+} from "./template";
 import { chapter } from "../database/Highlight";
-import { Bookmark } from "../database/interfaces";
+import { Bookmark, DeletedHighlightPolicy } from "../database/interfaces";
+import { DEFAULT_HIGHLIGHT_TYPES } from "./highlightTypes";
 
 describe("template", async function () {
 	const testDate = new Date("2023-01-01T12:00:00Z");
@@ -53,39 +61,24 @@ describe("template", async function () {
 		chai.expect(normalize(content)).equal(
 			normalize(
 				`---
-title: "test title"
-author: test
-publisher: 
-dateLastRead: 
-readStatus: Unknown
-percentRead: 
-isbn: 
-series: 
-seriesNumber: 
-timeSpentReading: 
+cards-deck: Vocabulary
 ---
 
-# test title
-
-## Description
-
-
-
-## Highlights
-
 ## Chapter 1
 
-test
+%% kobo-highlights-start %%
+> Quote : test ^kobo-efwnq4
 
-*Created: 2023-01-01T12:00:00.000Z*
+%% kobo-highlights-end %%
 
 ## Chapter 2
 
-test2
+%% kobo-highlights-start %%
+> Quote : test2 ^kobo-efwnq4
 
 **Note:** note2
 
-*Created: 2023-01-01T12:00:00.000Z*`,
+%% kobo-highlights-end %%`,
 			),
 		);
 	});
@@ -96,39 +89,24 @@ test2
 			[
 				defaultTemplate,
 				`---
-title: "test title"
-author: test
-publisher: 
-dateLastRead: 
-readStatus: Unknown
-percentRead: 
-isbn: 
-series: 
-seriesNumber: 
-timeSpentReading: 
+cards-deck: Vocabulary
 ---
 
-# test title
-
-## Description
-
-
-
-## Highlights
-
 ## Chapter 1
 
-test
+%% kobo-highlights-start %%
+> Quote : test ^kobo-efwnq4
 
-*Created: 2023-01-01T12:00:00.000Z*
+%% kobo-highlights-end %%
 
 ## Chapter 2
 
-test2
+%% kobo-highlights-start %%
+> Quote : test2 ^kobo-efwnq4
 
 **Note:** note2
 
-*Created: 2023-01-01T12:00:00.000Z*`,
+%% kobo-highlights-end %%`,
 			],
 		],
 		[
@@ -209,4 +187,330 @@ test2
 			chai.expect(normalize(content)).equal(normalize(t[1]));
 		});
 	}
+
+	it("getBlockId is deterministic and a valid block ID", async function () {
+		const id = getBlockId("c5b2637d-ddaf-4f15-9a81-dd701e0ad8fe");
+
+		chai.expect(id).to.match(/^kobo-[a-z0-9]+$/);
+		chai.expect(getBlockId("c5b2637d-ddaf-4f15-9a81-dd701e0ad8fe")).equal(
+			id,
+		);
+		chai.expect(getBlockId("e7f8f92d-38ca-4556-bab8-a4d902e9c430")).not.equal(
+			id,
+		);
+	});
+
+	it("applyTemplateTransformations exposes blockId independent of order", async function () {
+		const template = `<% it.chapters.forEach(([chapterName, highlights]) => { -%>
+<% highlights.forEach(h => { -%>
+<%= h.text %> ^<%= h.blockId %>
+<% }) -%>
+<% }) -%>`;
+		const bookmarks: Bookmark[] = [
+			{
+				bookmarkId: "a",
+				text: "first",
+				contentId: "content1",
+				dateCreated: testDate,
+			},
+			{
+				bookmarkId: "b",
+				text: "second",
+				contentId: "content1",
+				dateCreated: testDate,
+			},
+		];
+		const details = { title: "test title", author: "test" };
+
+		const forward = applyTemplateTransformations(
+			template,
+			new Map([["Chapter 1", bookmarks]]),
+			details,
+		);
+		const reversed = applyTemplateTransformations(
+			template,
+			new Map([["Chapter 1", [...bookmarks].reverse()]]),
+			details,
+		);
+
+		chai.expect(forward).to.contain(`first ^${getBlockId("a")}`);
+		chai.expect(reversed.split("\n").sort()).to.deep.equal(
+			forward.split("\n").sort(),
+		);
+	});
+
+	it("applyTemplateTransformations default with dogears and markups", async function () {
+		const content = applyTemplateTransformations(
+			defaultTemplate,
+			new Map([
+				[
+					"Chapter 1",
+					[
+						{
+							bookmarkId: "dogear",
+							text: "",
+							contentId: "content1",
+							dateCreated: testDate,
+							kind: "dogear",
+							chapterProgress: 0.425,
+						},
+						{
+							bookmarkId: "markup",
+							text: "",
+							contentId: "content1",
+							dateCreated: testDate,
+							kind: "markup",
+						},
+					],
+				],
+			]),
+			{ title: "test title", author: "test" },
+		);
+
+		chai.expect(content).to.contain(
+			`> Bookmarked at 43% ^${getBlockId("dogear")}`,
+		);
+		chai.expect(content).to.contain(
+			`> Markup : handwritten annotation ^${getBlockId("markup")}`,
+		);
+	});
+
+	it("applyTemplateTransformations default with markup images", async function () {
+		const content = applyTemplateTransformations(
+			defaultTemplate,
+			new Map([
+				[
+					"Chapter 1",
+					[
+						{
+							bookmarkId: "markup",
+							text: "",
+							contentId: "content1",
+							dateCreated: testDate,
+							kind: "markup",
+						},
+					],
+				],
+			]),
+			{ title: "test title", author: "test" },
+			new Map(),
+			"en",
+			new Map([["markup", ["Kobo markups/markup.svg"]]]),
+		);
+
+		chai.expect(content).to.contain(
+			`![[Kobo markups/markup.svg]] ^${getBlockId("markup")}`,
+		);
+	});
+
+	it("applyTemplateTransformations default with highlight colors", async function () {
+		const bookmark = (bookmarkId: string, color?: number): Bookmark => ({
+			bookmarkId,
+			text: bookmarkId,
+			contentId: "content1",
+			dateCreated: testDate,
+			color,
+		});
+		const content = applyTemplateTransformations(
+			defaultTemplate,
+			new Map([
+				[
+					"Chapter 1",
+					[
+						bookmark("plain"),
+						bookmark("word", 2),
+						bookmark("idea", 3),
+						bookmark("unknown", 7),
+					],
+				],
+			]),
+			{ title: "test title", author: "test" },
+			new Map([["word", { definition: "a definition" }]]),
+			"en",
+			new Map(),
+			[
+				{
+					color: 2,
+					colorName: "blue",
+					type: "Word",
+					callout: "",
+					tags: [],
+					vocabulary: true,
+				},
+				{
+					color: 3,
+					colorName: "green",
+					type: "Idea",
+					callout: "tip",
+					tags: ["idea", "review"],
+					vocabulary: false,
+				},
+			],
+		);
+
+		chai.expect(content).to.contain(
+			`> Quote : plain ^${getBlockId("plain")}`,
+		);
+		chai.expect(content).to.contain(
+			`- word ::: a definition ^${getBlockId("word")}`,
+		);
+		chai.expect(content).to.contain(
+			`> [!tip] Idea\n> idea #idea #review ^${getBlockId("idea")}`,
+		);
+		chai.expect(content).to.contain(
+			`> Quote : unknown ^${getBlockId("unknown")}`,
+		);
+	});
+
+	it("applyTemplateTransformations exposes type and colorName", async function () {
+		const content = applyTemplateTransformations(
+			`<% it.chapters.forEach(([_, highlights]) => { -%>
+<% highlights.forEach((h) => { -%>
+<%= h.colorName %>:<%= h.type %>
+<% }) -%>
+<% }) -%>`,
+			new Map([
+				[
+					"Chapter 1",
+					[
+						{
+							bookmarkId: "1",
+							text: "test",
+							contentId: "content1",
+							dateCreated: testDate,
+							color: 1,
+						},
+					],
+				],
+			]),
+			{ title: "test title", author: "test" },
+		);
+
+		chai.expect(content).equal("pink:Vocabulary");
+	});
+
+	it("applyTemplateTransformations default deck follows the language", async function () {
+		const content = applyTemplateTransformations(
+			defaultTemplate,
+			chapters,
+			{ title: "test title", author: "test" },
+			new Map(),
+			"de",
+		);
+
+		chai.expect(content).to.contain("cards-deck: Wortschatz");
+	});
+
+	it("applyTemplateTransformations writes back language overrides", async function () {
+		const content = applyTemplateTransformations(
+			defaultTemplate,
+			chapters,
+			{ title: "test title", author: "test" },
+			new Map(),
+			"de",
+			new Map(),
+			DEFAULT_HIGHLIGHT_TYPES,
+			"en",
+			{ definitionLanguage: "en" },
+		);
+
+		chai.expect(content).to.contain("definition-language: en");
+		chai.expect(content).not.to.contain("kobo-language");
+	});
+
+	it("applyTemplateTransformations writes back the deleted highlights override", async function () {
+		const render = (override?: DeletedHighlightPolicy) =>
+			applyTemplateTransformations(
+				defaultTemplate,
+				chapters,
+				{ title: "test title", author: "test" },
+				new Map(),
+				"en",
+				new Map(),
+				DEFAULT_HIGHLIGHT_TYPES,
+				"en",
+				{},
+				undefined,
+				override,
+			);
+
+		// Read back from the frontmatter on the next import, and kept again
+		chai.expect(render("archive")).to.contain("\nkobo-deleted-highlights: archive\n");
+		chai.expect(render()).not.to.contain("kobo-deleted-highlights");
+	});
+
+	it("applyTemplateTransformations exposes the definition language", async function () {
+		const content = applyTemplateTransformations(
+			"<%= it.language %>><%= it.definitionLanguage %> <%= it.definitionLanguageName %>",
+			chapters,
+			{ title: "test title", author: "test" },
+			new Map(),
+			"de",
+			new Map(),
+			DEFAULT_HIGHLIGHT_TYPES,
+			"en",
+		);
+
+		chai.expect(content).equal("de>en English");
+	});
+
+	it("formatDefinition and parseDefinition", async function () {
+		const definition = {
+			definition: "Gebäude zum Wohnen",
+			translation: "house",
+			pos: "Nomen",
+			example: "Das Haus ist alt.",
+		};
+
+		chai.expect(formatDefinition(definition)).equal(
+			"(Nomen) Gebäude zum Wohnen → house _Das Haus ist alt._",
+		);
+		chai.expect(parseDefinition(formatDefinition(definition))).to.deep.equal(
+			definition,
+		);
+		chai.expect(parseDefinition(" A short time. ")).to.deep.equal({
+			definition: "A short time.",
+		});
+	});
+
+	it("applyTemplateTransformations exposes definition fields", async function () {
+		const content = applyTemplateTransformations(
+			"<% const d = it.definitions.get('word'); %><%= d.translation %>|<%= d.pos %>|<%= d %>",
+			chapters,
+			{ title: "test title", author: "test" },
+			new Map([
+				["word", { definition: "a term", translation: "mot", pos: "noun" }],
+			]),
+		);
+
+		chai.expect(content).equal("mot|noun|(noun) a term → mot");
+	});
+
+	it("parseNoteDefinitions leaves out words without a definition", async function () {
+		const vocabulary = new Map<chapter, Bookmark[]>([
+			[
+				"Chapter 1",
+				["bank", "river"].map((text) => ({
+					bookmarkId: text,
+					text,
+					contentId: "c1",
+					dateCreated: testDate,
+					color: 1,
+				})),
+			],
+		]);
+		// The lookup of "river" was cancelled, so the note has a placeholder
+		const note = applyTemplateTransformations(
+			defaultTemplate,
+			vocabulary,
+			{ title: "test title", author: "test" },
+			new Map([["bank", { definition: "Side of a river" }]]),
+		);
+		chai.expect(note).to.contain("- river ::: ... ^");
+
+		// so the next import fetches it again
+		const definitions = parseNoteDefinitions(note);
+		chai.expect(Array.from(definitions.keys())).to.deep.equal(["bank"]);
+		chai.expect(definitions.has("river")).equal(false);
+	});
 });
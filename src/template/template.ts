@@ -1,14 +1,130 @@
 import { Eta } from "eta";
-import { BookDetails, ReadStatus, Bookmark } from "../database/interfaces";
+import {
+	BookDetails,
+	BookLanguageOverrides,
+	Definition,
+	DeletedHighlightPolicy,
+	ReadStatus,
+	Bookmark,
+	HighlightType,
+} from "../database/interfaces";
 import { chapter } from "../database/Highlight";
+import { getLanguageInfo } from "../services/languages";
+import { BookReadingStats } from "../services/ReadingStats";
+import { DEFAULT_HIGHLIGHT_TYPES, getHighlightType } from "./highlightTypes";
 
 const eta = new Eta({ autoEscape: false, autoTrim: false });
 
-// Kobo color codes: 1 = vocabulary, other values = quotes
+export type TemplateHighlight = Bookmark & {
+	blockId: string;
+	// Vault paths of the exported images of a markup annotation
+	markupImage?: string;
+	markupImages: string[];
+	// From the highlight color settings
+	type: string;
+	colorName: string;
+	callout: string;
+	tags: string[];
+	vocabulary: boolean;
+};
+
+// Renders as formatDefinition, so `<%= definition %>` writes the whole line
+export type TemplateDefinition = Definition & { toString(): string };
+
+/**
+ * One line flashcard answer: `(pos) definition → translation _example_`.
+ */
+export function formatDefinition(definition: Definition): string {
+	return [
+		definition.pos ? `(${definition.pos})` : "",
+		definition.definition,
+		definition.translation ? `→ ${definition.translation}` : "",
+		definition.example ? `_${definition.example}_` : "",
+	]
+		.filter((part) => part)
+		.join(" ");
+}
+
+export function toTemplateDefinition(
+	definition: Definition,
+): TemplateDefinition {
+	return { ...definition, toString: () => formatDefinition(definition) };
+}
+
+/**
+ * Reads back a line written by formatDefinition, e.g. from an existing
+ * note. Plain definitions are read as they are.
+ */
+export function parseDefinition(text: string): Definition {
+	const match =
+		/^(?:\((.+?)\) )?(.+?)(?: → (.+?))?(?: _(.+)_)?$/.exec(text.trim());
+	if (!match) {
+		return { definition: text.trim() };
+	}
+
+	const [, pos, definition, translation, example] = match;
+	return {
+		definition,
+		...(pos ? { pos } : {}),
+		...(translation ? { translation } : {}),
+		...(example ? { example } : {}),
+	};
+}
+
+// Written by the default template for words without a definition yet
+export const PLACEHOLDER_DEFINITION = "...";
+
+export function isPlaceholderDefinition(definition: Definition): boolean {
+	return definition.definition.trim() == PLACEHOLDER_DEFINITION;
+}
+
+/**
+ * Definitions of the vocabulary lines of a note written by the default
+ * template, `- word ::: definition ^block-id`, keyed by word. Words still
+ * showing the placeholder are left out, so that they are fetched again.
+ */
+export function parseNoteDefinitions(content: string): Map<string, Definition> {
+	const definitions = new Map<string, Definition>();
+
+	const vocabularyRegex = /^-\s+(.+?)\s+:::\s+(.+?)(?:\s+\^[\w-]+)?$/gm;
+	let match;
+	while ((match = vocabularyRegex.exec(content)) !== null) {
+		const definition = parseDefinition(match[2]);
+		if (!isPlaceholderDefinition(definition)) {
+			definitions.set(match[1].trim(), definition);
+		}
+	}
+
+	return definitions;
+}
+
+/**
+ * Derives an Obsidian block ID from a Kobo BookmarkID, so links like
+ * `[[Book#^kobo-1x2y3z]]` survive re-imports and re-ordering.
+ */
+export function getBlockId(bookmarkId: string): string {
+	// 32-bit FNV-1a
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < bookmarkId.length; i++) {
+		hash ^= bookmarkId.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+
+	return `kobo-${hash.toString(36)}`;
+}
 
 export const defaultTemplate = `
 ---
-cards-deck: <%= it.language === 'fr' ? 'Vocabulaire' : 'Vocabulary' %>
+cards-deck: <%= it.deck %>
+<% if (it.languageOverrides.language) { -%>
+kobo-language: <%= it.languageOverrides.language %>
+<% } -%>
+<% if (it.languageOverrides.definitionLanguage) { -%>
+definition-language: <%= it.languageOverrides.definitionLanguage %>
+<% } -%>
+<% if (it.deletedHighlightsOverride) { -%>
+kobo-deleted-highlights: <%= it.deletedHighlightsOverride %>
+<% } -%>
 ---
 
 <% it.chapters.forEach(([chapterName, highlights]) => { -%>
@@ -17,16 +133,29 @@ cards-deck: <%= it.language === 'fr' ? 'Vocabulaire' : 'Vocabulary' %>
 %% kobo-highlights-start %%
 <% highlights.forEach((highlight) => { -%>
 <% console.log('Template highlight:', highlight.text.substring(0, 20), 'color:', highlight.color, 'type:', typeof highlight.color); -%>
-<% if (highlight.color == 1) { -%>
+<% if (highlight.kind == 'dogear') { -%>
+> Bookmarked at <%= Math.round((highlight.chapterProgress ?? 0) * 100) %>% ^<%= highlight.blockId %>
+<% } else if (highlight.kind == 'markup' && highlight.markupImage) { -%>
+![[<%= highlight.markupImage %>]] ^<%= highlight.blockId %>
+<% } else if (highlight.kind == 'markup') { -%>
+> Markup : <%= highlight.text || 'handwritten annotation' %> ^<%= highlight.blockId %>
+<% } else if (highlight.vocabulary) { -%>
 <% const definition = it.definitions.get(highlight.text) || '...'; -%>
-- <%= highlight.text %> ::: <%= definition %>
+- <%= highlight.text %> ::: <%= definition %> ^<%= highlight.blockId %>
+<% } else if (highlight.callout) { -%>
+> [!<%= highlight.callout %>] <%= highlight.type %>
+> <%= highlight.text %><%= highlight.tags.map((tag) => ' #' + tag).join('') %> ^<%= highlight.blockId %>
 <% } else { -%>
-> Quote : <%= highlight.text %>
+> <%= highlight.type %> : <%= highlight.text %><%= highlight.tags.map((tag) => ' #' + tag).join('') %> ^<%= highlight.blockId %>
 <% } -%>
 
 <% if (highlight.note) { -%>
 **Note:** <%= highlight.note %>
 
+<% } -%>
+<% if (highlight.deletedOnDevice) { -%>
+*deleted-on-device*
+
 <% } -%>
 <% }) -%>
 %% kobo-highlights-end %%
@@ -38,16 +167,57 @@ export function applyTemplateTransformations(
 	rawTemplate: string,
 	chapters: Map<chapter, Bookmark[]>,
 	bookDetails: BookDetails,
-	definitions: Map<string, string>,
+	definitions: Map<string, Definition> = new Map(),
 	language: string = "en",
+	markupImages: Map<string, string[]> = new Map(),
+	highlightTypes: HighlightType[] = DEFAULT_HIGHLIGHT_TYPES,
+	definitionLanguage: string = language,
+	languageOverrides: BookLanguageOverrides = {},
+	readingStats?: BookReadingStats,
+	deletedHighlightsOverride?: DeletedHighlightPolicy,
 ): string {
-	const chaptersArr = Array.from(chapters.entries());
+	const chaptersArr: [chapter, TemplateHighlight[]][] = Array.from(
+		chapters.entries(),
+	).map(([chapterName, bookmarks]) => [
+		chapterName,
+		bookmarks.map((b) => {
+			const { type, colorName, callout, tags, vocabulary } =
+				getHighlightType(b.color, highlightTypes);
+
+			return {
+				...b,
+				kind: b.kind ?? "highlight",
+				blockId: getBlockId(b.bookmarkId),
+				markupImage: markupImages.get(b.bookmarkId)?.[0],
+				markupImages: markupImages.get(b.bookmarkId) ?? [],
+				type,
+				colorName,
+				callout,
+				tags,
+				vocabulary,
+			};
+		}),
+	]);
 	const rendered = eta.renderString(rawTemplate, {
 		bookDetails,
 		chapters: chaptersArr,
 		ReadStatus,
-		definitions,
+		definitions: new Map<string, TemplateDefinition>(
+			Array.from(definitions, ([word, definition]) => [
+				word,
+				toTemplateDefinition(definition),
+			]),
+		),
 		language,
+		languageName: getLanguageInfo(language).name,
+		deck: getLanguageInfo(language).deck,
+		definitionLanguage,
+		definitionLanguageName: getLanguageInfo(definitionLanguage).name,
+		// Written back to the frontmatter so they survive re-imports
+		languageOverrides,
+		readingStats,
+		// `kobo-deleted-highlights` from the frontmatter, written back too
+		deletedHighlightsOverride,
 	});
 
 	if (rendered === null) {
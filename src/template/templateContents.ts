@@ -6,10 +6,11 @@ import { defaultTemplate } from "./template";
 export async function getTemplateContents(
 	app: App,
 	templatePath: string | undefined,
+	defaultContents: string = defaultTemplate,
 ): Promise<string> {
 	const normalizedTemplatePath = normalizePath(templatePath ?? "");
 	if (normalizedTemplatePath === "/" || !normalizedTemplatePath) {
-		return defaultTemplate;
+		return defaultContents;
 	}
 
 	try {
@@ -17,13 +18,13 @@ export async function getTemplateContents(
 			normalizedTemplatePath,
 			"",
 		);
-		return templateFile ? app.vault.cachedRead(templateFile) : defaultTemplate;
+		return templateFile ? app.vault.cachedRead(templateFile) : defaultContents;
 	} catch (err) {
 		console.error(
 			`Failed to read template '${normalizedTemplatePath}':`,
 			err,
 		);
 		new Notice(`Failed to read template: ${normalizedTemplatePath}`);
-		return defaultTemplate;
+		return defaultContents;
 	}
 }
@@ -0,0 +1,85 @@
+import * as chai from "chai";
+import { ImportWatermark } from "../database/interfaces";
+import { DEFAULT_HIGHLIGHT_TYPES } from "./highlightTypes";
+import {
+	collectVocabularyEntries,
+	defaultVocabularyIndexTemplate,
+	renderVocabularyIndex,
+} from "./vocabularyIndex";
+
+describe("vocabularyIndex", async function () {
+	const bookmark = {
+		contentId: "c1",
+		chapter: "Chapter 1 ",
+		dateCreated: "2023-01-02T12:00:00.000Z",
+	};
+	const watermarks: Record<string, ImportWatermark> = {
+		device: {
+			lastDateCreated: "",
+			lastDateModified: "",
+			books: {
+				"Le Livre": {
+					language: "fr",
+					bookmarks: [
+						{ ...bookmark, bookmarkId: "w1", text: "rive", color: 1 },
+						{ ...bookmark, bookmarkId: "q1", text: "Il pleut.", color: 0 },
+						{
+							...bookmark,
+							bookmarkId: "w2",
+							text: "gone",
+							color: 1,
+							deletedOnDevice: true,
+						},
+					],
+				},
+				"The Book": {
+					bookmarks: [
+						{ ...bookmark, bookmarkId: "w3", text: "Bank", color: 1 },
+					],
+				},
+			},
+		},
+	};
+	const definitions = new Map([
+		["Le Livre", new Map([["rive", { definition: "bord | d'un fleuve", pos: "nom" }]])],
+	]);
+
+	it("collectVocabularyEntries", async function () {
+		const entries = collectVocabularyEntries(
+			watermarks,
+			DEFAULT_HIGHLIGHT_TYPES,
+			definitions,
+			(bookTitle) => bookTitle.toLowerCase(),
+		);
+
+		chai.expect(entries.map((e) => e.word)).to.deep.equal(["Bank", "rive"]);
+		chai.expect(entries[1].note).equal("le livre");
+		chai.expect(entries[1].language).equal("fr");
+		chai.expect(String(entries[1].definition)).equal("(nom) bord | d'un fleuve");
+		chai.expect(entries[0].definition).equal(undefined);
+	});
+
+	it("renderVocabularyIndex", async function () {
+		const entries = collectVocabularyEntries(
+			watermarks,
+			DEFAULT_HIGHLIGHT_TYPES,
+			definitions,
+			(bookTitle) => bookTitle,
+		).filter((e) => e.language == "fr");
+		const rendered = renderVocabularyIndex(
+			defaultVocabularyIndexTemplate,
+			entries,
+			"fr",
+		);
+
+		chai.expect(rendered.split("\n")).to.deep.equal([
+			"# Vocabulary (French)",
+			"",
+			"| Word | Definition | Book | Chapter | Date |",
+			"| ---- | ---------- | ---- | ------- | ---- |",
+			"| rive | (nom) bord \\| d'un fleuve | [[Le Livre#^" +
+				entries[0].blockId +
+				"\\|Le Livre]] | Chapter 1 | 2023-01-02 |",
+		]);
+	});
+});
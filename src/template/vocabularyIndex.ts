@@ -0,0 +1,116 @@
+import { Eta } from "eta";
+import {
+	Definition,
+	HighlightType,
+	ImportWatermark,
+} from "../database/interfaces";
+import { getLanguageInfo } from "../services/languages";
+import { getHighlightType } from "./highlightTypes";
+import {
+	getBlockId,
+	TemplateDefinition,
+	toTemplateDefinition,
+} from "./template";
+
+const eta = new Eta({ autoEscape: false, autoTrim: false });
+
+export interface VocabularyEntry {
+	bookmarkId: string;
+	word: string;
+	definition?: TemplateDefinition;
+	bookTitle: string;
+	// Book note to link to, without its extension
+	note: string;
+	blockId: string;
+	chapter: string;
+	dateCreated: Date;
+	context?: string;
+	// Two letter code, when the book was imported since it is recorded
+	language?: string;
+}
+
+export const defaultVocabularyIndexTemplate = `
+<% const cell = (text) => String(text ?? '').replace(/\\|/g, '\\\\|').replace(/\\s+/g, ' '); -%>
+# Vocabulary<%= it.language ? ' (' + it.languageName + ')' : '' %>
+
+| Word | Definition | Book | Chapter | Date |
+| ---- | ---------- | ---- | ------- | ---- |
+<% it.entries.forEach((entry) => { -%>
+| <%= cell(entry.word) %> | <%= cell(entry.definition) %> | [[<%= entry.note %>#^<%= entry.blockId %>\\|<%= cell(entry.bookTitle) %>]] | <%= cell(entry.chapter.trim()) %> | <%= entry.dateCreated.toISOString().slice(0, 10) %> |
+<% }) -%>
+`;
+
+/**
+ * Every vocabulary highlight of the imported books, from the import
+ * watermarks of all devices, with its definition from the book note.
+ * Highlights deleted on the device are left out. Sorted by word.
+ */
+export function collectVocabularyEntries(
+	watermarks: Record<string, ImportWatermark>,
+	highlightTypes: HighlightType[],
+	// bookTitle -> word -> definition
+	definitions: Map<string, Map<string, Definition>>,
+	getNoteName: (_bookTitle: string) => string,
+): VocabularyEntry[] {
+	const entries = new Map<string, VocabularyEntry>();
+
+	for (const watermark of Object.values(watermarks)) {
+		for (const [bookTitle, book] of Object.entries(watermark.books)) {
+			for (const bookmark of book.bookmarks) {
+				if (
+					entries.has(bookmark.bookmarkId) ||
+					bookmark.deletedOnDevice ||
+					(bookmark.kind && bookmark.kind != "highlight") ||
+					!getHighlightType(bookmark.color, highlightTypes).vocabulary
+				) {
+					continue;
+				}
+
+				const definition = definitions.get(bookTitle)?.get(bookmark.text);
+				entries.set(bookmark.bookmarkId, {
+					bookmarkId: bookmark.bookmarkId,
+					word: bookmark.text,
+					definition: definition && toTemplateDefinition(definition),
+					bookTitle,
+					note: getNoteName(bookTitle),
+					blockId: getBlockId(bookmark.bookmarkId),
+					chapter: bookmark.chapter,
+					dateCreated: new Date(bookmark.dateCreated),
+					context: bookmark.context,
+					language: book.language,
+				});
+			}
+		}
+	}
+
+	return Array.from(entries.values()).sort(
+		(a, b) =>
+			a.word.localeCompare(b.word, undefined, { sensitivity: "base" }) ||
+			a.bookTitle.localeCompare(b.bookTitle),
+	);
+}
+
+/**
+ * Renders the index note, of all languages or of `language` only.
+ */
+export function renderVocabularyIndex(
+	rawTemplate: string,
+	entries: VocabularyEntry[],
+	language?: string,
+): string {
+	const rendered = eta.renderString(rawTemplate, {
+		entries,
+		language,
+		languageName: language ? getLanguageInfo(language).name : undefined,
+	});
+
+	if (rendered === null) {
+		console.error(
+			"Vocabulary index rendering failed: eta.renderString returned null.",
+		);
+
+		return "Error: Template rendering failed. Check console for details.";
+	}
+
+	return rendered.trim();
+}
@@ -0,0 +1,197 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import { Definition } from "src/database/interfaces";
+import KoboHighlightsImporter from "src/main";
+import { getBookFileName } from "src/services/ImportService";
+import {
+	collectReviewCards,
+	formatInterval,
+	getDueCards,
+	ReviewCard,
+	ReviewGrade,
+	scheduleReview,
+} from "src/services/Review";
+import {
+	formatDefinition,
+	isPlaceholderDefinition,
+	parseNoteDefinitions,
+} from "src/template/template";
+
+export const REVIEW_VIEW_TYPE = "kobo-vocabulary-review";
+
+const GRADES: { grade: ReviewGrade; label: string; key: string }[] = [
+	{ grade: "again", label: "Again", key: "1" },
+	{ grade: "hard", label: "Hard", key: "2" },
+	{ grade: "good", label: "Good", key: "3" },
+	{ grade: "easy", label: "Easy", key: "4" },
+];
+
+/**
+ * Reviews the vocabulary of the imported books with spaced repetition. The
+ * words come from the import history, their definitions from the notes.
+ */
+export class ReviewView extends ItemView {
+	plugin: KoboHighlightsImporter;
+	private queue: ReviewCard[] = [];
+	private definitions = new Map<string, Definition>();
+	private showAnswer = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: KoboHighlightsImporter) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return REVIEW_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Vocabulary review";
+	}
+
+	getIcon(): string {
+		return "e-reader";
+	}
+
+	async onOpen() {
+		this.registerDomEvent(this.containerEl, "keydown", (event) => {
+			if (event.key == " " && !this.showAnswer && this.queue.length > 0) {
+				event.preventDefault();
+				this.reveal();
+			} else if (this.showAnswer) {
+				const grade = GRADES.find((g) => g.key == event.key)?.grade;
+				if (grade) {
+					this.answer(grade);
+				}
+			}
+		});
+
+		await this.startSession();
+	}
+
+	/**
+	 * Collects the words due for review, leaving out the ones without a
+	 * definition in their note yet.
+	 */
+	async startSession() {
+		const { settings } = this.plugin;
+		const cards = collectReviewCards(
+			settings.importWatermarks,
+			settings.highlightTypes,
+		);
+
+		this.definitions.clear();
+		const reviewable: ReviewCard[] = [];
+		const notes = new Map<string, Map<string, Definition>>();
+		for (const card of cards) {
+			let definitions = notes.get(card.bookTitle);
+			if (!definitions) {
+				const fileName = getBookFileName(settings, card.bookTitle);
+				definitions = (await this.app.vault.adapter.exists(fileName))
+					? parseNoteDefinitions(await this.app.vault.adapter.read(fileName))
+					: new Map<string, Definition>();
+				notes.set(card.bookTitle, definitions);
+			}
+
+			const definition = definitions.get(card.word);
+			if (definition && !isPlaceholderDefinition(definition)) {
+				this.definitions.set(card.bookmarkId, definition);
+				reviewable.push(card);
+			}
+		}
+
+		this.queue = getDueCards(
+			reviewable,
+			settings.reviewStates,
+			settings.reviewNewCards,
+		);
+		this.showAnswer = false;
+		this.render();
+	}
+
+	private reveal() {
+		this.showAnswer = true;
+		this.render();
+	}
+
+	private async answer(grade: ReviewGrade) {
+		const card = this.queue.shift();
+		if (!card) {
+			return;
+		}
+
+		const { settings } = this.plugin;
+		const state = scheduleReview(settings.reviewStates[card.bookmarkId], grade);
+		settings.reviewStates = {
+			...settings.reviewStates,
+			[card.bookmarkId]: state,
+		};
+		await this.plugin.saveSettings();
+
+		// Forgotten words are asked again at the end of the session
+		if (grade == "again") {
+			this.queue.push(card);
+		}
+
+		this.showAnswer = false;
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("kobo-highlights-importer-review");
+
+		const card = this.queue[0];
+		if (!card) {
+			contentEl.createEl("p", {
+				text: "No vocabulary to review right now. Import books with vocabulary highlights, or come back later.",
+			});
+			contentEl
+				.createEl("button", { text: "Check again" })
+				.addEventListener("click", () => this.startSession());
+			return;
+		}
+
+		contentEl.createEl("p", {
+			cls: "kobo-highlights-importer-review-info",
+			text: `${this.queue.length} left`,
+		});
+		contentEl.createEl("h2", { text: card.word });
+
+		if (!this.showAnswer) {
+			const button = contentEl.createEl("button", {
+				cls: "mod-cta",
+				text: "Show answer",
+			});
+			button.addEventListener("click", () => this.reveal());
+			button.focus();
+			return;
+		}
+
+		const definition = this.definitions.get(card.bookmarkId);
+		if (definition) {
+			contentEl.createEl("p", { text: formatDefinition(definition) });
+		}
+		if (card.context) {
+			contentEl.createEl("blockquote", { text: card.context });
+		}
+		contentEl.createEl("p", {
+			cls: "kobo-highlights-importer-review-info",
+			text: `${card.bookTitle} — ${card.chapter.trim()}`,
+		});
+
+		const buttonsEl = contentEl.createDiv({
+			cls: "kobo-highlights-importer-review-grades",
+		});
+		const state = this.plugin.settings.reviewStates[card.bookmarkId];
+		for (const { grade, label, key } of GRADES) {
+			const next = scheduleReview(state, grade);
+			buttonsEl
+				.createEl("button", {
+					text: `${label} (${formatInterval(next.due)})`,
+					attr: { title: `Press ${key}` },
+				})
+				.addEventListener("click", () => this.answer(grade));
+		}
+	}
+}